@@ -0,0 +1,77 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import { getLSPConfig } from './config';
+import { C3_LANGUAGE_ID, VERSIONED_KEYWORDS_PATH, VERSION_DECORATION_DELAY } from './constants';
+import { findWords, getUnavailableWords } from './text';
+import { error, info } from './logger';
+
+/** Words missing from each language version, `$` marks compile-time keywords and `@` attributes */
+let unavailableWords: Record<string, string[]> = {};
+
+let decoration: vscode.TextEditorDecorationType | null = null;
+let updateTimer: NodeJS.Timeout | undefined;
+
+/**
+ * Mark keywords and attributes that do not exist in `c3.lsp.langVersion`, the grammar highlights the latest version.
+ */
+export function registerVersionDecorations(context: vscode.ExtensionContext): void {
+    try {
+        unavailableWords = JSON.parse(fs.readFileSync(context.asAbsolutePath(VERSIONED_KEYWORDS_PATH), 'utf8'));
+        info(`Loaded keyword sets for language versions: ${Object.keys(unavailableWords).join(', ') || 'none'}`);
+    } catch (err) {
+        error('Failed to read versioned keyword sets', err);
+    }
+
+    decoration = vscode.window.createTextEditorDecorationType({
+        textDecoration: 'line-through',
+        opacity: '0.6',
+    });
+
+    context.subscriptions.push(
+        decoration,
+        vscode.window.onDidChangeVisibleTextEditors(() => scheduleUpdate()),
+        vscode.workspace.onDidChangeTextDocument(event => {
+            if (event.document.languageId === C3_LANGUAGE_ID) {
+                scheduleUpdate();
+            }
+        }),
+        vscode.workspace.onDidChangeConfiguration(event => {
+            if (event.affectsConfiguration('c3.lsp.langVersion')) {
+                scheduleUpdate();
+            }
+        }),
+        { dispose: () => clearTimeout(updateTimer) }
+    );
+
+    updateDecorations();
+}
+
+function scheduleUpdate(): void {
+    clearTimeout(updateTimer);
+    updateTimer = setTimeout(updateDecorations, VERSION_DECORATION_DELAY);
+}
+
+function updateDecorations(): void {
+    if (!decoration) {
+        return;
+    }
+
+    for (const editor of vscode.window.visibleTextEditors) {
+        if (editor.document.languageId !== C3_LANGUAGE_ID) {
+            continue;
+        }
+
+        // Without a version the latest is used, which the grammar matches
+        const version = getLSPConfig(editor.document.uri).langVersion;
+        const words = version ? getUnavailableWords(unavailableWords, version) : [];
+
+        editor.setDecorations(decoration, version && words.length > 0 ? findOccurrences(editor.document, words, version) : []);
+    }
+}
+
+function findOccurrences(document: vscode.TextDocument, words: string[], version: string): vscode.DecorationOptions[] {
+    return findWords(document.getText(), words).map(({ word, offset }) => ({
+        range: new vscode.Range(document.positionAt(offset), document.positionAt(offset + word.length)),
+        hoverMessage: new vscode.MarkdownString(`\`${word}\` is unavailable in C3 ${version} (\`c3.lsp.langVersion\`)`),
+    }));
+}
@@ -0,0 +1,375 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import {
+    BENCHMARK_HISTORY_KEY,
+    BENCHMARK_HISTORY_LIMIT,
+    C3C_COMMANDS,
+    C3C_FLAGS,
+    C3_BENCHMARK_VIEW_ID,
+    C3_LANGUAGE_ID,
+    C3_SOURCE_GLOB,
+} from './constants';
+import { findFunctions } from './source';
+import { findProjectForFile, findProjects } from './project';
+import { runCompiler } from './compiler';
+import { publishCompilerOutput } from './diagnostics';
+import { error, errorAndShow, info } from './logger';
+
+/**
+ * A single measurement of a benchmark
+ */
+export interface BenchmarkSample {
+    /** Unix time in milliseconds */
+    timestamp: number;
+    /** Average time per iteration in nanoseconds */
+    nanoseconds: number;
+    iterations?: number;
+    clocks?: number;
+}
+
+/**
+ * A benchmark function found in the workspace
+ */
+interface BenchmarkFunction {
+    id: string;
+    module: string;
+    uri: vscode.Uri;
+    range: vscode.Range;
+}
+
+/**
+ * Stored results per benchmark ID (`module::function`), oldest first
+ */
+type BenchmarkHistory = Record<string, BenchmarkSample[]>;
+
+/**
+ * Node shown in the benchmark results view, either a benchmark or one of its results
+ */
+type BenchmarkNode = { id: string } | { id: string; sample: BenchmarkSample; previous?: BenchmarkSample };
+
+const TIME_REGEX = /(\d+(?:\.\d+)?)\s*(ns|us|µs|ms|s)\b/;
+const ITERATIONS_REGEX = /(\d+)\s*iterations?/i;
+const CLOCKS_REGEX = /(\d+(?:\.\d+)?)\s*(?:cpu'?s?\s*)?clocks?/i;
+const ANSI_REGEX = /\x1b\[[0-9;]*m/g;
+
+const NANOSECONDS_PER_UNIT: Record<string, number> = { ns: 1, us: 1e3, µs: 1e3, ms: 1e6, s: 1e9 };
+
+let state: vscode.Memento | null = null;
+let outputChannel: vscode.OutputChannel | null = null;
+const treeChanged = new vscode.EventEmitter<BenchmarkNode | undefined>();
+
+/**
+ * Register the benchmark CodeLens and results view.
+ */
+export function registerBenchmarks(context: vscode.ExtensionContext): void {
+    state = context.workspaceState;
+    outputChannel = vscode.window.createOutputChannel('C3 Benchmarks');
+
+    const codeLens = vscode.languages.registerCodeLensProvider(
+        { language: C3_LANGUAGE_ID, scheme: 'file' },
+        { provideCodeLenses: provideBenchmarkCodeLenses }
+    );
+
+    const treeView = vscode.window.createTreeView(C3_BENCHMARK_VIEW_ID, {
+        treeDataProvider: {
+            onDidChangeTreeData: treeChanged.event,
+            getChildren: getBenchmarkNodes,
+            getTreeItem: toTreeItem,
+        },
+    });
+
+    context.subscriptions.push(codeLens, treeView, outputChannel, treeChanged);
+}
+
+/**
+ * Run a single benchmark. Without an ID the user picks one of the benchmarks in the workspace.
+ */
+export async function runBenchmark(id?: string): Promise<void> {
+    const benchmarks = await findBenchmarks();
+
+    if (!id) {
+        const picked = await vscode.window.showQuickPick(
+            benchmarks.map(b => ({ label: b.id, description: vscode.workspace.asRelativePath(b.uri) })),
+            { title: 'Select benchmark to run' }
+        );
+        id = picked?.label;
+    }
+
+    const selected = benchmarks.filter(b => b.id === id);
+    if (selected.length > 0) {
+        await runBenchmarks(selected, id);
+    }
+}
+
+/**
+ * Run all benchmarks of a module.
+ */
+export async function runModuleBenchmarks(module?: string): Promise<void> {
+    const benchmarks = await findBenchmarks();
+
+    if (!module) {
+        const modules = [...new Set(benchmarks.map(b => b.module))];
+        module = await vscode.window.showQuickPick(modules, { title: 'Select module to benchmark' });
+    }
+
+    const selected = benchmarks.filter(b => b.module === module);
+    if (selected.length > 0) {
+        await runBenchmarks(selected, module);
+    }
+}
+
+/**
+ * Run every benchmark in the workspace.
+ */
+export async function runAllBenchmarks(): Promise<void> {
+    await runBenchmarks(await findBenchmarks(), undefined);
+}
+
+/**
+ * Remove all stored benchmark results.
+ */
+export async function clearBenchmarkHistory(): Promise<void> {
+    await state?.update(BENCHMARK_HISTORY_KEY, undefined);
+    treeChanged.fire(undefined);
+}
+
+/**
+ * Run the given benchmarks, grouped per project, and store their results.
+ */
+async function runBenchmarks(benchmarks: BenchmarkFunction[], filter: string | undefined): Promise<void> {
+    if (benchmarks.length === 0) {
+        info('No benchmarks found');
+        return;
+    }
+
+    // Benchmarks in a project run with `c3c benchmark`, standalone files with `c3c compile-benchmark`
+    const invocations = new Map<string, { cwd: string; args: string[]; ids: string[] }>();
+    const projects = await findProjects();
+
+    for (const benchmark of benchmarks) {
+        const project = await findProjectForFile(benchmark.uri, projects);
+        const key = project ? project.uri.toString() : benchmark.uri.toString();
+
+        if (!invocations.has(key)) {
+            const args: string[] = project
+                ? [C3C_COMMANDS.BENCHMARK]
+                : [C3C_COMMANDS.COMPILE_BENCHMARK, benchmark.uri.fsPath];
+
+            if (filter) {
+                args.push(C3C_FLAGS.BENCHMARK_FILTER, filter);
+            }
+
+            invocations.set(key, {
+                cwd: project ? project.directory.fsPath : path.dirname(benchmark.uri.fsPath),
+                args,
+                ids: [],
+            });
+        }
+
+        invocations.get(key)!.ids.push(benchmark.id);
+    }
+
+    outputChannel?.clear();
+    outputChannel?.show(true);
+
+    await vscode.window.withProgress(
+        {
+            title: 'Running C3 benchmarks',
+            location: vscode.ProgressLocation.Notification,
+            cancellable: true,
+        },
+        async (_, token) => {
+            for (const invocation of invocations.values()) {
+                if (token.isCancellationRequested) {
+                    break;
+                }
+
+                const result = await runCompiler(invocation.args, invocation.cwd, text => outputChannel?.append(text), token);
+                publishCompilerOutput(result.output, invocation.cwd);
+
+                const samples = parseBenchmarkOutput(result.output, invocation.ids);
+                if (samples.size === 0 && result.exitCode !== 0) {
+                    errorAndShow(`Benchmark run failed with exit code ${result.exitCode}`);
+                    continue;
+                }
+
+                await storeSamples(samples);
+            }
+        }
+    );
+}
+
+/**
+ * Parse the output of the c3c benchmark runner. A result is a line that mentions the benchmark
+ * name together with a time, e.g. `Benchmarking foo::bench ... [COMPLETE] 1234.5 ns, 2345 clocks, 1000 iterations`.
+ */
+export function parseBenchmarkOutput(output: string, ids: string[], timestamp: number = Date.now()): Map<string, BenchmarkSample> {
+    const samples = new Map<string, BenchmarkSample>();
+    const sortedIds = [...ids].sort((a, b) => b.length - a.length);
+    let current: string | undefined;
+
+    for (const rawLine of output.split(/\r?\n/)) {
+        const line = rawLine.replace(ANSI_REGEX, '');
+
+        // The name and the result may be printed on separate lines
+        const named = sortedIds.find(id => line.includes(id));
+        current = named ?? current;
+
+        // Drop the name so digits in it are not mistaken for a measurement
+        const rest = named ? line.replace(named, '') : line;
+
+        const time = TIME_REGEX.exec(rest);
+        if (!current || !time) {
+            continue;
+        }
+
+        const iterations = ITERATIONS_REGEX.exec(rest);
+        const clocks = CLOCKS_REGEX.exec(rest);
+
+        samples.set(current, {
+            timestamp,
+            nanoseconds: parseFloat(time[1]) * NANOSECONDS_PER_UNIT[time[2]],
+            iterations: iterations ? parseInt(iterations[1]) : undefined,
+            clocks: clocks ? parseFloat(clocks[1]) : undefined,
+        });
+        current = undefined;
+    }
+
+    return samples;
+}
+
+async function storeSamples(samples: Map<string, BenchmarkSample>): Promise<void> {
+    const history = getHistory();
+
+    for (const [id, sample] of samples) {
+        history[id] = [...(history[id] ?? []), sample].slice(-BENCHMARK_HISTORY_LIMIT);
+    }
+
+    await state?.update(BENCHMARK_HISTORY_KEY, history);
+    treeChanged.fire(undefined);
+
+    info(`Stored results for ${samples.size} benchmarks`);
+}
+
+function getHistory(): BenchmarkHistory {
+    return { ...(state?.get<BenchmarkHistory>(BENCHMARK_HISTORY_KEY) ?? {}) };
+}
+
+/**
+ * Find all `@benchmark` functions in the workspace.
+ */
+async function findBenchmarks(): Promise<BenchmarkFunction[]> {
+    const files = await vscode.workspace.findFiles(C3_SOURCE_GLOB, '**/{build,.git}/**');
+    const benchmarks: BenchmarkFunction[] = [];
+
+    for (const uri of files) {
+        // A file deleted or unreadable since the search is skipped
+        try {
+            const text = new TextDecoder().decode(await vscode.workspace.fs.readFile(uri));
+            benchmarks.push(...findBenchmarksInText(uri, text));
+        } catch (err) {
+            error(`Failed to read ${uri.fsPath}`, err);
+        }
+    }
+
+    return benchmarks;
+}
+
+function findBenchmarksInText(uri: vscode.Uri, text: string): BenchmarkFunction[] {
+    return findFunctions(text)
+        .filter(fn => fn.attributes.includes('benchmark'))
+        .map(fn => {
+            const module = fn.module || path.parse(uri.fsPath).name;
+            return { id: `${module}::${fn.name}`, module, uri, range: fn.range };
+        });
+}
+
+/**
+ * Show "Run benchmark" above every benchmark and "Run module benchmarks" above the first one of each module.
+ */
+function provideBenchmarkCodeLenses(document: vscode.TextDocument): vscode.CodeLens[] {
+    const lenses: vscode.CodeLens[] = [];
+    const modules = new Set<string>();
+
+    for (const benchmark of findBenchmarksInText(document.uri, document.getText())) {
+        if (!modules.has(benchmark.module)) {
+            modules.add(benchmark.module);
+            lenses.push(new vscode.CodeLens(benchmark.range, {
+                title: 'Run module benchmarks',
+                command: 'c3.runModuleBenchmarks',
+                arguments: [benchmark.module],
+            }));
+        }
+
+        lenses.push(new vscode.CodeLens(benchmark.range, {
+            title: 'Run benchmark',
+            command: 'c3.runBenchmark',
+            arguments: [benchmark.id],
+        }));
+    }
+
+    return lenses;
+}
+
+function getBenchmarkNodes(node?: BenchmarkNode): BenchmarkNode[] {
+    const history = getHistory();
+
+    if (!node) {
+        return Object.keys(history).sort().map(id => ({ id }));
+    }
+
+    if ('sample' in node) {
+        return [];
+    }
+
+    // Newest result first
+    const samples = history[node.id] ?? [];
+    return samples
+        .map((sample, i) => ({ id: node.id, sample, previous: samples[i - 1] }))
+        .reverse();
+}
+
+function toTreeItem(node: BenchmarkNode): vscode.TreeItem {
+    if ('sample' in node) {
+        const item = new vscode.TreeItem(new Date(node.sample.timestamp).toLocaleString());
+        item.description = describeSample(node.sample, node.previous);
+        item.tooltip = [
+            `${node.sample.nanoseconds.toFixed(2)} ns`,
+            node.sample.iterations !== undefined ? `${node.sample.iterations} iterations` : '',
+            node.sample.clocks !== undefined ? `${node.sample.clocks} clocks` : '',
+        ].filter(Boolean).join('\n');
+        return item;
+    }
+
+    const samples = getHistory()[node.id] ?? [];
+    const item = new vscode.TreeItem(node.id, vscode.TreeItemCollapsibleState.Collapsed);
+    item.description = samples.length > 0 ? describeSample(samples[samples.length - 1], samples[samples.length - 2]) : undefined;
+    item.contextValue = 'benchmark';
+    return item;
+}
+
+/**
+ * Format a result with the change relative to the previous run, e.g. `1.23 µs (-4.1%)`.
+ */
+function describeSample(sample: BenchmarkSample, previous?: BenchmarkSample): string {
+    const time = formatNanoseconds(sample.nanoseconds);
+
+    if (!previous || previous.nanoseconds === 0) {
+        return time;
+    }
+
+    const change = ((sample.nanoseconds - previous.nanoseconds) / previous.nanoseconds) * 100;
+    return `${time} (${change >= 0 ? '+' : ''}${change.toFixed(1)}%)`;
+}
+
+function formatNanoseconds(nanoseconds: number): string {
+    if (nanoseconds >= 1e9) {
+        return `${(nanoseconds / 1e9).toFixed(2)} s`;
+    } else if (nanoseconds >= 1e6) {
+        return `${(nanoseconds / 1e6).toFixed(2)} ms`;
+    } else if (nanoseconds >= 1e3) {
+        return `${(nanoseconds / 1e3).toFixed(2)} µs`;
+    }
+
+    return `${nanoseconds.toFixed(2)} ns`;
+}
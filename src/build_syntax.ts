@@ -1,10 +1,46 @@
-import { readFileSync, writeFileSync } from 'fs';
+import { existsSync, mkdirSync, readdirSync, readFileSync, writeFileSync } from 'fs';
+import { execFileSync } from 'child_process';
 import * as js_yaml from 'js-yaml';
 
 interface Variables {
     [key: string]: string;
 }
 
+/**
+ * Word lists in syntaxes/c3.keywords.json, each one becomes a `{{name}}` variable joined with `|`.
+ * `builtin` and `type_property` are kept for the diff report, `other` holds keywords the grammar
+ * matches with dedicated rules (e.g. `fn`, `struct`, `true`) so they are not reported as new.
+ */
+interface Keywords {
+    [list: string]: string[];
+}
+
+/** c3c commands listing the words of each group, the prefix is stripped from the output if present */
+const COMPILER_LISTS = [
+    { flag: '--list-keywords', prefix: '' },
+    { flag: '--list-attributes', prefix: '@' },
+    { flag: '--list-builtins', prefix: '$$' },
+    { flag: '--list-type-properties', prefix: '' },
+];
+
+const KEYWORDS_FILE = 'syntaxes/c3.keywords.json';
+
+/** Word lists of older language versions, recorded with `--lang-version` from that version's c3c */
+const VERSIONS_DIR = 'syntaxes/versions';
+
+/** Highlighted words missing from each language version, read by the extension */
+const VERSIONS_FILE = 'syntaxes/c3.versions.json';
+
+/** Lists highlighted by the grammar and the prefix their words are written with */
+const HIGHLIGHTED_LISTS: [string, string][] = [
+    ['keyword', ''],
+    ['control_keyword', ''],
+    ['base_type', ''],
+    ['ct_keyword', '$'],
+    ['ct_control_keyword', '$'],
+    ['attribute', '@'],
+];
+
 const variables: Variables = {
     "INT": '[0-9](?:_?[0-9])*',
     "HINT": '[a-fA-F0-9](?:_?[a-fA-F0-9])*',
@@ -17,20 +53,18 @@ const variables: Variables = {
     "CONST": '(?:\\b_*[A-Z][_A-Z0-9]*\\b)',
     "TYPE": '(?:\\b_*[A-Z][_A-Z0-9]*[a-z][_a-zA-Z0-9]*\\b)',
     "IDENT": '(?:\\b_*[a-z][_a-zA-Z0-9]*\\b)',
-    "keyword": 'assert|asm|catch|inline|import|module|interface|try|var',
-    "control_keyword": 'break|case|continue|default|defer|do|else|for|foreach|foreach_r|if|nextcase|return|switch|while',
-    "ct_keyword": 'alignof|assert|assignable|default|defined|echo|embed|eval|error|exec|extnameof|feature|include|is_const|kindof|nameof|offsetof|qnameof|sizeof|stringify|vacount|vaconst|vaarg|vaexpr|vasplat',
-    "ct_control_keyword": 'case|else|endfor|endforeach|endif|endswitch|for|foreach|if|switch',
-    "base_type": 'void|bool|char|double|float|float16|bfloat|int128|ichar|int|iptr|isz|long|short|uint128|uint|ulong|uptr|ushort|usz|float128|any|fault|typeid',
-    "attribute": 'align|allow_deprecated|benchmark|bigendian|builtin|callconv|cname|compact|const|deprecated|dynamic|export|extern|finalizer|format|if|inline|init|jump|link|littleendian|local|maydiscard|naked|noalias|nodiscard|noinit|noinline|nopadding|norecurse|noreturn|nosanitize|nostrip|obfuscate|operator|operator_r|operator_s|optional|overlap|packed|private|public|pure|reflect|safeinfer|safemacro|simd|section|structlike|tag|test|unused|used|wasm|weak|winmain',
 };
 
 /**
  * Build the TextMate grammar JSON files from the YAML source.
  */
-function buildSyntax(): void {
+function buildSyntax(keywords: Keywords): void {
     let text = readFileSync('syntaxes/c3.tmLanguage.yml').toString();
 
+    for (const [list, words] of Object.entries(keywords)) {
+        variables[list] = words.join('|');
+    }
+
     // Insert all the regular expression placeholders
     text = text.replaceAll(/\{\{([A-Za-z0-9_]+)\}\}/g, (_, key: string) => variables[key]);
 
@@ -60,4 +94,184 @@ function buildSyntax(): void {
     console.log('✓ Generated syntax files');
 }
 
-buildSyntax();
+/**
+ * Write the highlighted words each recorded language version lacks, with their `$` or `@` prefix.
+ */
+function buildVersions(keywords: Keywords): void {
+    const versions: { [version: string]: string[] } = {};
+    const files = existsSync(VERSIONS_DIR) ? readdirSync(VERSIONS_DIR).sort() : [];
+
+    for (const file of files) {
+        const version = /^c3\.keywords\.(.+)\.json$/.exec(file)?.[1];
+
+        if (!version) {
+            continue;
+        }
+
+        const versionKeywords: Keywords = JSON.parse(readFileSync(`${VERSIONS_DIR}/${file}`).toString());
+        versions[version] = HIGHLIGHTED_LISTS.flatMap(([list, prefix]) => (keywords[list] ?? [])
+            .filter(word => !versionKeywords[list]?.includes(word))
+            .map(word => prefix + word));
+    }
+
+    writeFileSync(VERSIONS_FILE, JSON.stringify(versions, null, 2) + '\n');
+    console.log(`✓ Generated ${VERSIONS_FILE} for ${Object.keys(versions).length} language versions`);
+}
+
+/**
+ * Regenerate the word lists from `c3c --list-*` output and print the added and removed words.
+ * Words keep their list, new ones are placed by their prefix. Plain words can be a keyword,
+ * a control keyword or a type, so they are only reported and have to be added by hand.
+ */
+export function updateKeywords(keywords: Keywords, c3c: string, listed = COMPILER_LISTS.map(({ flag, prefix }) => listWords(c3c, flag, prefix))): { keywords: Keywords; changed: boolean; compared: boolean } {
+    const [keywordWords, attributeWords, builtinWords, propertyWords] = listed;
+
+    // Without the keywords nothing can be classified, a check that did not run must not pass
+    if (!keywordWords) {
+        console.error(`✗ ${c3c} ${COMPILER_LISTS[0].flag} failed, the word lists were not compared`);
+        return { keywords, changed: false, compared: false };
+    }
+
+    const updated: Keywords = structuredClone(keywords);
+
+    // Compile-time keywords are listed with their `$`
+    const plain = keywordWords.filter(word => /^[a-z_]/.test(word));
+    const compileTime = keywordWords.filter(word => word.startsWith('$')).map(word => word.slice(1));
+
+    const sources: [string, string[] | null][] = [
+        ['keyword', plain],
+        ['control_keyword', plain],
+        ['base_type', plain],
+        ['other', plain],
+        ['ct_keyword', compileTime],
+        ['ct_control_keyword', compileTime],
+        ['attribute', attributeWords],
+        ['builtin', builtinWords],
+        ['type_property', propertyWords],
+    ];
+
+    let changed = false;
+
+    for (const [list, words] of sources) {
+        if (!words) {
+            continue;
+        }
+
+        const current = updated[list] ?? [];
+        const removed = current.filter(word => !words.includes(word));
+        updated[list] = current.filter(word => words.includes(word));
+
+        if (removed.length > 0) {
+            console.log(`- ${list}: ${removed.join(' ')}`);
+            changed = true;
+        }
+    }
+
+    const isKnown = (word: string, lists: string[]) => lists.some(list => updated[list]?.includes(word));
+    const add = (list: string, words: string[]) => {
+        const added = words.filter(word => !isKnown(word, [list])).sort();
+
+        if (added.length > 0) {
+            updated[list] = [...(updated[list] ?? []), ...added];
+            console.log(`+ ${list}: ${added.join(' ')}`);
+            changed = true;
+        }
+    };
+
+    const newCompileTime = compileTime.filter(word => !isKnown(word, ['ct_keyword', 'ct_control_keyword']));
+    const isControl = (word: string) => word.startsWith('end') || updated['control_keyword']?.includes(word);
+    add('ct_control_keyword', newCompileTime.filter(isControl));
+    add('ct_keyword', newCompileTime.filter(word => !isControl(word)));
+
+    if (attributeWords) {
+        add('attribute', attributeWords);
+    }
+
+    if (builtinWords) {
+        add('builtin', builtinWords);
+    }
+
+    if (propertyWords) {
+        add('type_property', propertyWords);
+    }
+
+    const unclassified = plain.filter(word => !isKnown(word, ['keyword', 'control_keyword', 'base_type', 'other']));
+
+    if (unclassified.length > 0) {
+        console.log(`? unclassified, add to keyword, control_keyword, base_type or other: ${unclassified.sort().join(' ')}`);
+        changed = true;
+    }
+
+    const skipped = COMPILER_LISTS.filter((_, index) => !listed[index]).map(({ flag }) => flag);
+
+    if (skipped.length > 0) {
+        console.warn(`! Not compared, ${c3c} does not support: ${skipped.join(' ')}`);
+    } else if (!changed) {
+        console.log(`✓ Word lists match ${c3c}`);
+    }
+
+    return { keywords: updated, changed, compared: true };
+}
+
+/**
+ * Run a c3c list command, returns null if this c3c does not support it.
+ */
+function listWords(c3c: string, flag: string, prefix: string): string[] | null {
+    let output: string;
+
+    try {
+        output = execFileSync(c3c, [flag], { encoding: 'utf8', timeout: 10_000 });
+    } catch (err) {
+        console.warn(`! ${c3c} ${flag} failed, skipping: ${err instanceof Error ? err.message : String(err)}`);
+        return null;
+    }
+
+    // Skip headings and blank lines, words are listed one per line
+    return [...new Set(output.split(/\r?\n/)
+        .map(line => line.trim())
+        .map(line => prefix && line.startsWith(prefix) ? line.slice(prefix.length) : line)
+        .filter(word => /^\$?[A-Za-z_][A-Za-z0-9_]*$/.test(word)))];
+}
+
+/**
+ * Usage: `node out/build_syntax.js [--check-keywords | --update-keywords] [--c3c <path>] [--lang-version <version>]`
+ * `--check-keywords` only prints the differences and fails if there are any,
+ * `--update-keywords` also writes them to syntaxes/c3.keywords.json before building.
+ * With `--lang-version` the lists of that version are checked or updated instead, starting from the current ones.
+ */
+function main(): void {
+    const args = process.argv.slice(2);
+    const option = (name: string) => args.includes(name) ? args[args.indexOf(name) + 1] : undefined;
+    const c3c = option('--c3c') ?? process.env['C3C'] ?? 'c3c';
+    const langVersion = option('--lang-version');
+    const keywordsFile = langVersion ? `${VERSIONS_DIR}/c3.keywords.${langVersion}.json` : KEYWORDS_FILE;
+
+    const keywords: Keywords = JSON.parse(readFileSync(KEYWORDS_FILE).toString());
+    let updating: Keywords = existsSync(keywordsFile) ? JSON.parse(readFileSync(keywordsFile).toString()) : keywords;
+
+    if (args.includes('--check-keywords') || args.includes('--update-keywords')) {
+        const result = updateKeywords(updating, c3c);
+
+        if (args.includes('--check-keywords') || !result.compared) {
+            process.exitCode = result.changed || !result.compared ? 1 : 0;
+            return;
+        }
+
+        updating = result.keywords;
+
+        if (langVersion) {
+            mkdirSync(VERSIONS_DIR, { recursive: true });
+        }
+
+        writeFileSync(keywordsFile, JSON.stringify(updating, null, 2) + '\n');
+        console.log(`✓ Updated ${keywordsFile}`);
+    }
+
+    buildSyntax(langVersion ? keywords : updating);
+    buildVersions(langVersion ? keywords : updating);
+}
+
+// Only run when called as a script, the tests import `updateKeywords`
+if (require.main === module) {
+    main();
+}
@@ -1,18 +1,55 @@
 import * as vscode from 'vscode';
-import * as cp from 'child_process';
-import { restartLSP } from './lsp';
-import { getLSPConfig, getFMTConfig } from './config';
-import { errorAndShow, info, showOutput } from './logger';
-import { C3C_FLAGS, FMT_FLAGS, LSP_FLAGS } from './constants';
+import { getActiveFolder, installLSP, installLSPVersion, promptForBinaryPath, restartLSP, rollbackLSP, showLSPLogs, showLSPMenu, showLSPPerformance } from './lsp';
+import * as benchmark from './benchmark';
+import * as toolchain from './toolchain';
+import * as format from './format';
+import { createSupportBundle, showVersionInfo } from './support';
+import { openWalkthrough } from './walkthrough';
+import { newProject } from './scaffold';
+import * as run from './run';
+import * as emit from './emit';
+import { selectBuildProfile } from './profile';
 
 /**
  * Register all extension commands.
  *!Must match with commands in package.json 
  */
 export function registerCommands(context: vscode.ExtensionContext): void {
-    // Restart LSP command
+    // Restart LSP command, restarts the server of the active editor's folder or all servers without an editor
     const restartLSPCommand = vscode.commands.registerCommand('c3.restartLSP', async () => {
-        await restartLSP(context);
+        await restartLSP(context, getActiveFolder());
+    });
+
+    // Roll back LSP command, the changed c3.lsp.path restarts the server through the config watcher
+    const rollbackLSPCommand = vscode.commands.registerCommand('c3.rollbackLSP', async () => {
+        await rollbackLSP(context);
+    });
+
+    // Install the latest or pinned LSP, and pick a binary, used by the walkthrough
+    const installLSPCommand = vscode.commands.registerCommand('c3.installLSP', async () => {
+        await installLSP(context);
+    });
+
+    const selectLSPBinaryCommand = vscode.commands.registerCommand('c3.selectLSPBinary', async () => {
+        await promptForBinaryPath();
+    });
+
+    // Install a specific LSP version command
+    const installLSPVersionCommand = vscode.commands.registerCommand('c3.installLSPVersion', async () => {
+        await installLSPVersion(context);
+    });
+
+    // Language server status bar menu and logs
+    const showLSPMenuCommand = vscode.commands.registerCommand('c3.showLSPMenu', async () => {
+        await showLSPMenu();
+    });
+
+    const showLSPLogsCommand = vscode.commands.registerCommand('c3.showLSPLogs', () => {
+        showLSPLogs();
+    });
+
+    const showLSPPerformanceCommand = vscode.commands.registerCommand('c3.showLSPPerformance', () => {
+        showLSPPerformance();
     });
 
     // Show version info command
@@ -20,58 +57,134 @@ export function registerCommands(context: vscode.ExtensionContext): void {
         await showVersionInfo();
     });
 
-    context.subscriptions.push(restartLSPCommand, showVersionsCommand);
-}
+    // Install the formatter, used by the walkthrough
+    const installFormatterCommand = vscode.commands.registerCommand('c3.installFormatter', async () => {
+        await format.installFormatter(context);
+    });
 
-/**
- * Show version information about installed tools.
- */
-async function showVersionInfo(): Promise<void> {
-    const lspConfig = getLSPConfig();
-    const formatConfig = getFMTConfig();
-    const lines: string[] = [];
-
-    lines.push('\n=== C3 Extension Info ===');
-
-    // LSP info
-    lines.push(`\nLSP Path: ${lspConfig.path || 'Not configured'}`);
-    if (lspConfig.path) {
-        const lspVersion = getCommandVersion(lspConfig.path, [LSP_FLAGS.VERSION]);
-        lines.push(`LSP Version: ${lspVersion || 'Not found'}`);
-    }
-
-    // Check for c3c in PATH
-    const c3cVersion = getCommandVersion('c3c', [C3C_FLAGS.VERSION]);
-    lines.push(`\nC3C Version: ${c3cVersion || 'Not found'}`);
-
-    // Formatter info
-    lines.push(`\nFormatter Path: ${formatConfig.path || 'Not configured'}`);
-    if (formatConfig.path) {
-        const formatterVersion = getCommandVersion(formatConfig.path, [FMT_FLAGS.VERSION]);
-        lines.push(`Formatter Version: ${formatterVersion || 'Not found'}`);
-    }
-
-    info(lines.join('\n'));
-    showOutput();
-}
+    // Project scaffolding wizards
+    const newProjectCommand = vscode.commands.registerCommand('c3.newProject', async () => {
+        await newProject();
+    });
 
-/**
- * Try to get version string from a command.
- */
-function getCommandVersion(command: string, args: string[]): string | null {
-    try {
-        const result = cp.spawnSync(command, args, {
-            encoding: 'utf-8',
-            timeout: 5000
-        });
-        if (result.status === 0) {
-            return result.stdout.trim();
-        } else {
-            errorAndShow(`Failed to execute command: ${command}`);
-            return null;
-        }
-    } catch {
-        errorAndShow(`Failed to execute command: ${command}`);
-        return null;
-    }
-}
\ No newline at end of file
+    const newLibraryCommand = vscode.commands.registerCommand('c3.newLibrary', async () => {
+        await newProject(true);
+    });
+
+    // Open the getting started walkthrough
+    const getStartedCommand = vscode.commands.registerCommand('c3.getStarted', async () => {
+        await openWalkthrough(context);
+    });
+
+    // Zip logs, versions and settings for bug reports
+    const createSupportBundleCommand = vscode.commands.registerCommand('c3.createSupportBundle', async () => {
+        await createSupportBundle(context);
+    });
+
+    // Run and Debug CodeLens commands, invoked with the file and test ID or for the active editor
+    const runMainCommand = vscode.commands.registerCommand('c3.runMain', async (uri?: vscode.Uri) => {
+        await run.runMain(uri);
+    });
+
+    const debugMainCommand = vscode.commands.registerCommand('c3.debugMain', async (uri?: vscode.Uri) => {
+        await run.debugMain(uri);
+    });
+
+    const runTestCommand = vscode.commands.registerCommand('c3.runTest', async (uri?: vscode.Uri, testId?: string) => {
+        await run.runTest(uri, testId);
+    });
+
+    const debugTestCommand = vscode.commands.registerCommand('c3.debugTest', async (uri?: vscode.Uri, testId?: string) => {
+        await run.debugTest(uri, testId);
+    });
+
+    const setProgramArgsCommand = vscode.commands.registerCommand('c3.setProgramArgs', async (uri?: vscode.Uri) => {
+        await run.setProgramArgs(uri);
+    });
+
+    const selectBuildProfileCommand = vscode.commands.registerCommand('c3.selectBuildProfile', async () => {
+        await selectBuildProfile();
+    });
+
+    // LLVM IR and assembly views
+    const showLLVMIRCommand = vscode.commands.registerCommand('c3.showLLVMIR', async () => {
+        await emit.showEmitted('llvm');
+    });
+
+    const showAssemblyCommand = vscode.commands.registerCommand('c3.showAssembly', async () => {
+        await emit.showEmitted('asm');
+    });
+
+    const setEmitOptionsCommand = vscode.commands.registerCommand('c3.setEmitOptions', async () => {
+        await emit.setEmitOptions();
+    });
+
+    // Benchmark commands, also used by the benchmark CodeLens and view
+    // Invoked with an ID from the CodeLens and with a tree node from the view
+    const runBenchmarkCommand = vscode.commands.registerCommand('c3.runBenchmark', async (arg?: string | { id: string }) => {
+        await benchmark.runBenchmark(typeof arg === 'object' ? arg.id : arg);
+    });
+
+    const runModuleBenchmarksCommand = vscode.commands.registerCommand('c3.runModuleBenchmarks', async (module?: string) => {
+        await benchmark.runModuleBenchmarks(module);
+    });
+
+    const runAllBenchmarksCommand = vscode.commands.registerCommand('c3.runAllBenchmarks', async () => {
+        await benchmark.runAllBenchmarks();
+    });
+
+    const clearBenchmarkHistoryCommand = vscode.commands.registerCommand('c3.clearBenchmarkHistory', async () => {
+        await benchmark.clearBenchmarkHistory();
+    });
+
+    // Compiler toolchain commands
+    const installCompilerCommand = vscode.commands.registerCommand('c3.installCompiler', async () => {
+        await toolchain.installCompiler(context);
+    });
+
+    const selectCompilerCommand = vscode.commands.registerCommand('c3.selectCompiler', async () => {
+        await toolchain.selectCompiler(context);
+    });
+
+    const removeCompilerCommand = vscode.commands.registerCommand('c3.removeCompiler', async () => {
+        await toolchain.removeCompiler(context);
+    });
+
+    const checkToolchainCommand = vscode.commands.registerCommand('c3.checkToolchain', async () => {
+        await toolchain.showToolchainReport(context);
+    });
+
+    context.subscriptions.push(
+        restartLSPCommand,
+        rollbackLSPCommand,
+        installLSPCommand,
+        selectLSPBinaryCommand,
+        installLSPVersionCommand,
+        showLSPMenuCommand,
+        showLSPLogsCommand,
+        showLSPPerformanceCommand,
+        showVersionsCommand,
+        installFormatterCommand,
+        newProjectCommand,
+        newLibraryCommand,
+        getStartedCommand,
+        createSupportBundleCommand,
+        installCompilerCommand,
+        selectCompilerCommand,
+        removeCompilerCommand,
+        checkToolchainCommand,
+        runMainCommand,
+        debugMainCommand,
+        runTestCommand,
+        debugTestCommand,
+        setProgramArgsCommand,
+        selectBuildProfileCommand,
+        showLLVMIRCommand,
+        showAssemblyCommand,
+        setEmitOptionsCommand,
+        runBenchmarkCommand,
+        runModuleBenchmarksCommand,
+        runAllBenchmarksCommand,
+        clearBenchmarkHistoryCommand
+    );
+}
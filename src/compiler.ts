@@ -0,0 +1,92 @@
+import * as vscode from 'vscode';
+import { execFile, spawn } from 'child_process';
+import { getC3Config } from './config';
+import { C3C_DEFAULT_COMMAND, C3C_FLAGS, C3C_KNOWN_TARGETS, TOOL_VERSION_TIMEOUT } from './constants';
+import { error, info } from './logger';
+
+/**
+ * Result of a finished c3c invocation
+ */
+export interface CompilerResult {
+    exitCode: number | null;
+    /** Combined stdout and stderr in the order it was received */
+    output: string;
+}
+
+/**
+ * Get the c3c command to run for a workspace folder or file, falling back to PATH lookup.
+ */
+export function getC3CPath(scope?: vscode.ConfigurationScope): string {
+    return getC3Config(scope).c3cPath || C3C_DEFAULT_COMMAND;
+}
+
+/**
+ * Get the targets c3c can compile for, or a built-in list if c3c can not be run.
+ */
+export function listTargets(scope?: vscode.ConfigurationScope): Promise<string[]> {
+    return new Promise(resolve => {
+        execFile(getC3CPath(scope), [C3C_FLAGS.LIST_TARGETS], { timeout: TOOL_VERSION_TIMEOUT }, (err, stdout) => {
+            // Skip headings, targets are listed one per line
+            const targets = err ? [] : stdout.split(/\r?\n/).map(line => line.trim()).filter(line => /^[a-z0-9_]+(-[a-z0-9_]+)*$/.test(line));
+
+            if (targets.length === 0) {
+                error(`Failed to list c3c targets${err ? `: ${err.message}` : ''}, using built-in list`);
+            }
+
+            resolve(targets.length > 0 ? targets : [...C3C_KNOWN_TARGETS]);
+        });
+    });
+}
+
+/**
+ * Run c3c with the given arguments and collect its output.
+ * Output is also streamed to `onOutput` as it arrives. Cancelling the token kills the process.
+ * Text fired by `input` is written to the process's stdin, `null` closes it.
+ */
+export function runCompiler(
+    args: string[],
+    cwd: string,
+    onOutput?: (text: string) => void,
+    token?: vscode.CancellationToken,
+    input?: vscode.Event<string | null>
+): Promise<CompilerResult> {
+    // c3c-path can differ per workspace folder
+    const c3cPath = getC3CPath(vscode.Uri.file(cwd));
+    info(`Running: ${c3cPath} ${args.join(' ')} (in ${cwd})`);
+
+    return new Promise((resolve) => {
+        const proc = spawn(c3cPath, args, { cwd });
+        let output = '';
+
+        const onData = (chunk: Buffer) => {
+            const text = chunk.toString();
+            output += text;
+            onOutput?.(text);
+        };
+
+        proc.stdout.on('data', onData);
+        proc.stderr.on('data', onData);
+
+        const cancellation = token?.onCancellationRequested(() => proc.kill());
+        const inputListener = input?.(text => text === null ? proc.stdin.end() : proc.stdin.write(text));
+
+        // Writing after the process exited fails, the input is dropped
+        proc.stdin.on('error', () => { });
+
+        proc.on('error', (err) => {
+            error(`Failed to start c3c: ${err.message}`);
+            const text = `Failed to start ${c3cPath}: ${err.message}\n`;
+            output += text;
+            onOutput?.(text);
+            cancellation?.dispose();
+            inputListener?.dispose();
+            resolve({ exitCode: null, output });
+        });
+
+        proc.on('close', (exitCode) => {
+            cancellation?.dispose();
+            inputListener?.dispose();
+            resolve({ exitCode, output });
+        });
+    });
+}
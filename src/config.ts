@@ -1,6 +1,6 @@
 import * as vscode from 'vscode';
 import { Trace } from 'vscode-languageclient';
-import { C3_LANGUAGE_ID, DEFAULT_LSP_CONFIG, DEFAULT_FORMAT_CONFIG } from './constants';
+import { C3_LANGUAGE_ID, DEFAULT_C3_CONFIG, DEFAULT_LOG_CONFIG, DEFAULT_LSP_CONFIG, DEFAULT_FORMAT_CONFIG, DEFAULT_TOOLCHAIN_CONFIG } from './constants';
 
 /** 
  * General C3 settings 
@@ -8,20 +8,55 @@ import { C3_LANGUAGE_ID, DEFAULT_LSP_CONFIG, DEFAULT_FORMAT_CONFIG } from './con
 export interface C3Config {
     c3cPath: string | undefined;
     stdlibPath: string | undefined;
+    /** Never download release manifests, only cached ones are used */
+    offline: boolean;
 }
 
+/**
+ * Settings for the c3c toolchain manager
+ */
+export interface ToolchainConfig {
+    manifestUrl: string;
+}
+
+/**
+ * Lowest level written to the log, `off` disables logging
+ */
+export type LogLevel = 'trace' | 'debug' | 'info' | 'warning' | 'error' | 'off';
+
+/**
+ * Settings for the extension log
+ */
+export interface LogConfig {
+    level: LogLevel;
+    /** Also write the log to rotating files in the extension's log folder */
+    file: boolean;
+}
+
+/**
+ * How the client talks to the language server: spawn it over stdio or attach to a running one
+ */
+export type LSPTransport = 'stdio' | 'tcp' | 'pipe';
+
 /** 
  * Settings for the Language Server Protocol client 
  */
 export interface LSPConfig {
     enabled: boolean;
     path: string | undefined;
+    transport: LSPTransport;
+    /** `host:port` for TCP, pipe name or socket path for pipes */
+    address: string | undefined;
     sendCrashReports: boolean;
     debug: boolean;
     trace: Trace;
     logPath: string;
+    /** File the JSON-RPC traffic is recorded to, empty to not record */
+    trafficLog: string;
     diagnosticsDelay: number;
     langVersion: string | undefined;
+    /** Release the installer keeps installed instead of prompting for updates */
+    pinnedVersion: string | undefined;
 }
 
 /** 
@@ -34,22 +69,46 @@ export interface FMTConfig {
 }
 
 /**
- * Get fresh general C3 settings.
+ * Get fresh general C3 settings, for a workspace folder or resource if given.
  */
-export function getC3Config(): C3Config {
-    const config = vscode.workspace.getConfiguration(C3_LANGUAGE_ID);
+export function getC3Config(scope?: vscode.ConfigurationScope): C3Config {
+    const config = vscode.workspace.getConfiguration(C3_LANGUAGE_ID, scope);
 
     return {
         c3cPath: config.get<string>('c3c-path'),
         stdlibPath: config.get<string>('stdlib-path'),
+        offline: config.get<boolean>('offline', DEFAULT_C3_CONFIG.offline),
     };
 }
 
 /**
- * Get fresh LSP-related settings.
+ * Get fresh extension log settings.
  */
-export function getLSPConfig(): LSPConfig {
-    const config = vscode.workspace.getConfiguration('c3.lsp');
+export function getLogConfig(): LogConfig {
+    const config = vscode.workspace.getConfiguration('c3.log');
+
+    return {
+        level: config.get<LogLevel>('level', DEFAULT_LOG_CONFIG.level),
+        file: config.get<boolean>('file', DEFAULT_LOG_CONFIG.file),
+    };
+}
+
+/**
+ * Get fresh toolchain manager settings.
+ */
+export function getToolchainConfig(): ToolchainConfig {
+    const config = vscode.workspace.getConfiguration('c3.toolchain');
+
+    return {
+        manifestUrl: config.get<string>('manifestUrl') || DEFAULT_TOOLCHAIN_CONFIG.manifestUrl,
+    };
+}
+
+/**
+ * Get fresh LSP-related settings, for a workspace folder if given.
+ */
+export function getLSPConfig(scope?: vscode.ConfigurationScope): LSPConfig {
+    const config = vscode.workspace.getConfiguration('c3.lsp', scope);
 
     const parsedTrace = (() => {
         const traceStr = config.get<string>('trace');
@@ -74,12 +133,16 @@ export function getLSPConfig(): LSPConfig {
     return {
         enabled: config.get<boolean>('enabled', DEFAULT_LSP_CONFIG.enabled),
         path: config.get<string>('path'),
+        transport: config.get<LSPTransport>('transport', DEFAULT_LSP_CONFIG.transport),
+        address: config.get<string>('address') || undefined,
         sendCrashReports: config.get<boolean>('sendCrashReports', DEFAULT_LSP_CONFIG.sendCrashReports),
         debug: config.get<boolean>('debug', DEFAULT_LSP_CONFIG.debug),
         trace: parsedTrace,
         logPath: config.get<string>('log.path', DEFAULT_LSP_CONFIG.logPath),
+        trafficLog: config.get<string>('trafficLog', DEFAULT_LSP_CONFIG.trafficLog),
         diagnosticsDelay: config.get<number>('diagnosticsDelay', DEFAULT_LSP_CONFIG.diagnosticsDelay),
         langVersion: config.get<string>('langVersion'),
+        pinnedVersion: config.get<string>('pinnedVersion') || undefined,
     };
 }
 
@@ -103,3 +166,46 @@ export async function updateLSPPath(path: string | undefined): Promise<void> {
     const config = vscode.workspace.getConfiguration('c3.lsp');
     await config.update('path', path, vscode.ConfigurationTarget.Global);
 }
+
+/**
+ * Update the pinned LSP version in the workspace settings if it is pinned there, otherwise globally (user settings).
+ */
+export async function updateLSPPinnedVersion(version: string | undefined): Promise<void> {
+    const config = vscode.workspace.getConfiguration('c3.lsp');
+
+    // A workspace pin overrides the user one, so updating only the user settings would have no effect
+    const target = config.inspect<string>('pinnedVersion')?.workspaceValue !== undefined
+        ? vscode.ConfigurationTarget.Workspace
+        : vscode.ConfigurationTarget.Global;
+
+    await config.update('pinnedVersion', version, target);
+}
+
+/**
+ * Turn the formatter on or off globally (user settings).
+ */
+export async function updateFMTEnabled(enabled: boolean): Promise<void> {
+    const config = vscode.workspace.getConfiguration('c3.format');
+    await config.update('enabled', enabled, vscode.ConfigurationTarget.Global);
+}
+
+/**
+ * Update the formatter path globally (user settings).
+ */
+export async function updateFMTPath(path: string | undefined): Promise<void> {
+    const config = vscode.workspace.getConfiguration('c3.format');
+    await config.update('path', path, vscode.ConfigurationTarget.Global);
+}
+
+/**
+ * Update the compiler and standard library paths, for the workspace if one is open.
+ */
+export async function updateC3Paths(c3cPath: string | undefined, stdlibPath: string | undefined): Promise<void> {
+    const config = vscode.workspace.getConfiguration(C3_LANGUAGE_ID);
+    const target = vscode.workspace.workspaceFolders
+        ? vscode.ConfigurationTarget.Workspace
+        : vscode.ConfigurationTarget.Global;
+
+    await config.update('c3c-path', c3cPath, target);
+    await config.update('stdlib-path', stdlibPath, target);
+}
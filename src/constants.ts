@@ -1,11 +1,14 @@
 import { Trace } from "vscode-languageserver-protocol";
-import { C3Config, FMTConfig, LSPConfig } from './config'
+import { C3Config, FMTConfig, LogConfig, LSPConfig, ToolchainConfig } from './config'
 
 /** URL to fetch C3 LSP release information */
 export const C3_LSP_RELEASES_URL = 'https://pherrymason.github.io/c3-lsp/releases.json';
 
+/** URL to fetch c3c release information, can be overridden with `c3.toolchain.manifestUrl` */
+export const C3C_RELEASES_URL = 'https://api.github.com/repos/c3lang/c3c/releases';
+
 /** URL to fetch C3FMT release information */
-export const C3_FMT_RELEASES_URL = 'https://github.com/lmichaudel/c3fmt/releases';
+export const C3_FMT_RELEASES_URL = 'https://api.github.com/repos/lmichaudel/c3fmt/releases';
 
 /** Language ID registered for C3 files */
 export const C3_LANGUAGE_ID = 'c3';
@@ -13,6 +16,27 @@ export const C3_LANGUAGE_ID = 'c3';
 /** Name of the C3 log channel */
 export const C3_LOG_NAME = 'C3';
 
+/** Name of the log file in the extension's log folder, rotated files get a number suffix */
+export const LOG_FILE_NAME = 'c3.log';
+
+/** Size in bytes after which the log file is rotated */
+export const LOG_FILE_MAX_SIZE = 1024 * 1024;
+
+/** Number of rotated log files kept next to the current one */
+export const LOG_FILE_BACKUPS = 2;
+
+/** Log lines are collected for this many milliseconds and written to the log file together */
+export const LOG_FILE_FLUSH_DELAY = 1000;
+
+/** Log lines kept in memory for support bundles */
+export const LOG_BUFFER_LINES = 2000;
+
+/** Bytes read from the end of each log file put in a support bundle */
+export const SUPPORT_BUNDLE_MAX_LOG_SIZE = 5 * 1024 * 1024;
+
+/** The same notification is shown at most once in this many milliseconds */
+export const NOTIFICATION_DEDUP_WINDOW = 60_000;
+
 /** File extensions that trigger the extension */
 export const C3_FILE_EXTENSIONS = ['c3', 'c3i', 'c3t'];
 
@@ -22,9 +46,203 @@ export const LSP_CLIENT_NAME = 'C3LSP';
 /** ID used for LSP client */
 export const LSP_CLIENT_ID = 'c3lsp';
 
-/** Folder name for storing downloaded LSP binary */
+/** Latest request durations kept per LSP method for percentiles */
+export const LSP_LATENCY_SAMPLES = 1000;
+
+/** View type of the language server performance webview */
+export const LSP_PERFORMANCE_VIEW_TYPE = 'c3.lspPerformance';
+
+/** How often the performance webview refreshes while visible, in milliseconds */
+export const LSP_PERFORMANCE_REFRESH_INTERVAL = 2000;
+
+/** Settings changes within this many milliseconds are applied together */
+export const CONFIG_CHANGE_DELAY = 300;
+
+/** Delay before restarting a crashed LSP, doubled for every crash in a row */
+export const LSP_RESTART_BASE_DELAY = 1000;
+
+/** Upper bound for the delay between LSP restarts */
+export const LSP_RESTART_MAX_DELAY = 30_000;
+
+/** Connection attempts before giving up on a server reached over TCP or a pipe */
+export const LSP_CONNECT_ATTEMPTS = 5;
+
+/** Crashes in a row after which the LSP is no longer restarted */
+export const LSP_MAX_CRASHES = 5;
+
+/** An LSP running this long is considered healthy again and the crash count is reset */
+export const LSP_HEALTHY_UPTIME = 60_000;
+
+/** Folder name for storing downloaded LSP binaries, one subfolder per version */
 export const LSP_INSTALL_FOLDER = 'c3lsp';
 
+/** Name of the LSP executable inside release archives (without `.exe`) */
+export const LSP_EXECUTABLE_NAME = 'c3lsp';
+
+/** Global state key for the current and previous LSP installs, used for rollback */
+export const LSP_INSTALLS_STATE_KEY = 'c3.lsp.installs';
+
+/** Folder name for storing downloaded C3FMT binary */
+export const FMT_INSTALL_FOLDER = 'c3fmt';
+
+/** Name of the C3FMT executable inside release archives (without `.exe`) */
+export const FMT_EXECUTABLE_NAME = 'c3fmt';
+
+/** Folder name for storing installed c3c versions, one subfolder per version */
+export const C3C_INSTALL_FOLDER = 'c3c';
+
+/** Global state key for downloaded release manifests, keyed by URL */
+export const RELEASES_CACHE_KEY = 'c3.releasesCache';
+
+/** How long a cached release manifest is used for background update checks, in milliseconds */
+export const RELEASES_CACHE_TTL = 6 * 60 * 60 * 1000;
+
+/** Global state key for the list of installed c3c versions */
+export const TOOLCHAINS_STATE_KEY = 'c3.toolchains';
+
+/** Name of the c3c executable inside release archives (without `.exe`) */
+export const C3C_EXECUTABLE_NAME = 'c3c';
+
+/** Location of the standard library relative to the c3c executable */
+export const C3C_STDLIB_FOLDER = ['lib', 'std'];
+
+/** Milliseconds to wait for a tool to print its version */
+export const TOOL_VERSION_TIMEOUT = 5000;
+
+/** Command used to invoke the compiler when `c3.c3c-path` is not set */
+export const C3C_DEFAULT_COMMAND = 'c3c';
+
+/** Name of the c3c project file */
+export const PROJECT_FILE_NAME = 'project.json';
+
+/** Targets offered when `c3c --list-targets` can not be run */
+export const C3C_KNOWN_TARGETS = [
+    'android-aarch64',
+    'android-x86_64',
+    'elf-aarch64',
+    'elf-riscv32',
+    'elf-riscv64',
+    'elf-x86',
+    'elf-x64',
+    'freebsd-x86',
+    'freebsd-x64',
+    'ios-aarch64',
+    'linux-aarch64',
+    'linux-riscv32',
+    'linux-riscv64',
+    'linux-x86',
+    'linux-x64',
+    'macos-aarch64',
+    'macos-x64',
+    'mingw-x64',
+    'netbsd-x86',
+    'netbsd-x64',
+    'openbsd-x86',
+    'openbsd-x64',
+    'wasm32',
+    'wasm64',
+    'windows-aarch64',
+    'windows-x64',
+];
+
+/** ID of the getting started walkthrough in package.json */
+export const WALKTHROUGH_ID = 'gettingStarted';
+
+/** Set once the walkthrough was opened automatically */
+export const WALKTHROUGH_SHOWN_STATE_KEY = 'c3.walkthroughShown';
+
+/** Context keys completing the walkthrough steps, must match `completionEvents` in package.json */
+export const WALKTHROUGH_CONTEXT_KEYS = {
+    COMPILER: 'c3.walkthrough.compilerReady',
+    LSP: 'c3.walkthrough.lspReady',
+    FORMATTER: 'c3.walkthrough.formatterReady',
+    PROJECT: 'c3.walkthrough.projectReady',
+} as const;
+
+/** Settings the walkthrough's tool checks depend on, other changes do not rerun them */
+export const WALKTHROUGH_SETTINGS = [
+    'c3.c3c-path',
+    'c3.stdlib-path',
+    'c3.lsp.enabled',
+    'c3.lsp.path',
+    'c3.lsp.transport',
+    'c3.format.enabled',
+    'c3.format.path',
+];
+
+/** Name of the manifest file inside a C3 library */
+export const MANIFEST_FILE_NAME = 'manifest.json';
+
+/** Extension of C3 library directories and archives */
+export const C3_LIBRARY_EXTENSION = '.c3l';
+
+/** Dependency search path c3c uses when project.json does not set one */
+export const DEFAULT_DEPENDENCY_SEARCH_PATH = 'lib';
+
+/** JSON schemas, relative to the extension root. Must match with jsonValidation in package.json */
+export const PROJECT_SCHEMA_PATH = 'schemas/project.schema.json';
+export const MANIFEST_SCHEMA_PATH = 'schemas/manifest.schema.json';
+
+/** Source shown for project.json and manifest.json diagnostics */
+export const PROJECT_VALIDATION_SOURCE = 'c3 project';
+
+/** Edits within this many milliseconds validate a project.json or manifest.json once */
+export const PROJECT_VALIDATION_DELAY = 500;
+
+/** Highlighted words missing from each language version, relative to the extension root. Generated by build_syntax.ts */
+export const VERSIONED_KEYWORDS_PATH = 'syntaxes/c3.versions.json';
+
+/** Edits within this many milliseconds update the unavailable keyword decorations once */
+export const VERSION_DECORATION_DELAY = 300;
+
+/** Task type contributed for c3c project tasks */
+export const C3_TASK_TYPE = 'c3';
+
+/** ID of the test controller for `@test` functions */
+export const C3_TEST_CONTROLLER_ID = 'c3Tests';
+
+/** ID of the benchmark results view */
+export const C3_BENCHMARK_VIEW_ID = 'c3.benchmarks';
+
+/** Workspace state key for stored benchmark results */
+export const BENCHMARK_HISTORY_KEY = 'c3.benchmarkHistory';
+
+/** Workspace state key of the program arguments stored per file */
+export const PROGRAM_ARGS_STATE_KEY = 'c3.programArgs';
+
+/** Debug type contributed for launching C3 programs through a native debugger */
+export const C3_DEBUG_TYPE = 'c3';
+
+/** Workspace state key of the build profile picked per workspace folder */
+export const BUILD_PROFILE_STATE_KEY = 'c3.buildProfile';
+
+/** Folder in the temp directory for binaries built for debugging */
+export const DEBUG_BUILD_FOLDER = 'c3-debug';
+
+/** Native debugger extensions, the first installed one is used */
+export const NATIVE_DEBUGGERS = [
+    { extension: 'vadimcn.vscode-lldb', type: 'lldb' },
+    { extension: 'ms-vscode.cpptools', type: 'cppdbg' },
+] as const;
+
+/** URI scheme of the read-only LLVM IR and assembly documents */
+export const C3_EMIT_SCHEME = 'c3-emit';
+
+/** Folder in the temp directory for LLVM IR and assembly output, one subfolder per view */
+export const EMIT_BUILD_FOLDER = 'c3-emit';
+
+/** Optimization levels accepted by c3c, without the leading `-` */
+export const C3C_OPTIMIZATION_LEVELS = ['O0', 'O1', 'O2', 'O3', 'O4', 'O5', 'Os', 'Oz'];
+
+/** Number of results kept per benchmark */
+export const BENCHMARK_HISTORY_LIMIT = 20;
+
+/** Glob matching C3 source files */
+export const C3_SOURCE_GLOB = `**/*.{${C3_FILE_EXTENSIONS.join(',')}}`;
+
+/** Source shown for diagnostics parsed from c3c output */
+export const C3C_DIAGNOSTIC_SOURCE = 'c3c';
+
 export const LSP_FLAGS = {
     C3C_PATH: '-c3c-path',
     DEBUG: '-debug',
@@ -37,13 +255,45 @@ export const LSP_FLAGS = {
 } as const;
 
 export const C3C_FLAGS = {
+    ASM_OUT: '--asm-out',
+    BENCHMARK_FILTER: '--benchmark-filter',
+    BUILD_DIR: '--build-dir',
+    DEFINE: '-D',
+    DEBUG_INFO: '-g',
+    EMIT_ASM: '--emit-asm',
+    EMIT_LLVM: '--emit-llvm',
+    LIST_TARGETS: '--list-targets',
+    LLVM_OUT: '--llvm-out',
+    NO_RUN: '--no-run',
+    OUTPUT: '-o',
+    /** Arguments after this are passed to the compiled program */
+    PROGRAM_ARGS: '--',
+    TARGET: '--target',
+    TEMPLATE: '--template',
+    TEST_FILTER: '--test-filter',
     VERSION: '--version',
 } as const;
 
+export const C3C_COMMANDS = {
+    BENCHMARK: 'benchmark',
+    BUILD: 'build',
+    CLEAN: 'clean',
+    COMPILE: 'compile',
+    COMPILE_BENCHMARK: 'compile-benchmark',
+    COMPILE_ONLY: 'compile-only',
+    COMPILE_RUN: 'compile-run',
+    COMPILE_TEST: 'compile-test',
+    INIT: 'init',
+    INIT_LIB: 'init-lib',
+    RUN: 'run',
+    TEST: 'test',
+} as const;
+
 export const FMT_FLAGS = {
     CONFIG_FILE: '--config=',
     FORCE_DEFAULT: '--default',
     VERSION: '--version',
+    STDIN: '--stdin',
     STDOUT: '--stdout',
 } as const;
 
@@ -51,18 +301,32 @@ export const FMT_FLAGS = {
 
 export const DEFAULT_C3_CONFIG: C3Config = {
     c3cPath: undefined,
-    stdlibPath: undefined
+    stdlibPath: undefined,
+    offline: false
+} as const;
+
+export const DEFAULT_TOOLCHAIN_CONFIG: ToolchainConfig = {
+    manifestUrl: C3C_RELEASES_URL
+} as const;
+
+export const DEFAULT_LOG_CONFIG: LogConfig = {
+    level: 'info',
+    file: false
 } as const;
 
 export const DEFAULT_LSP_CONFIG: LSPConfig = {
     enabled: true,
     path: undefined,
+    transport: 'stdio',
+    address: undefined,
     sendCrashReports: false,
     debug: false,
     trace: Trace.Compact,
     logPath: '',
+    trafficLog: '',
     diagnosticsDelay: 2000,
-    langVersion: undefined
+    langVersion: undefined,
+    pinnedVersion: undefined
 } as const;
 
 export const DEFAULT_FORMAT_CONFIG: FMTConfig = {
@@ -0,0 +1,315 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { C3C_COMMANDS, C3C_FLAGS, C3_DEBUG_TYPE, C3_LANGUAGE_ID, DEBUG_BUILD_FOLDER, NATIVE_DEBUGGERS } from './constants';
+import { Project, findProjects, readProject } from './project';
+import { runCompiler } from './compiler';
+import { publishCompilerOutput } from './diagnostics';
+import { errorAndShow, info } from './logger';
+import { getBuildProfile, getProfileTarget } from './profile';
+
+/**
+ * A native program to debug
+ */
+export interface DebugTarget {
+    name: string;
+    program: string;
+    args: string[];
+    cwd: string;
+    env?: Record<string, string>;
+}
+
+/**
+ * Launch configuration of `"type": "c3"`.
+ *!Must match with the debuggers contribution in package.json
+ */
+interface C3DebugConfiguration extends vscode.DebugConfiguration {
+    /** Debug a single file, a project target or the test runner */
+    mode?: 'file' | 'target' | 'test';
+    /** Source file for `file` mode, and for `test` mode outside a project */
+    file?: string;
+    /** project.json to build, the first project of the workspace folder by default */
+    project?: string;
+    /** Project target for `target` mode, the build profile's by default */
+    target?: string;
+    /** `--target` triple, the build profile's by default */
+    platform?: string;
+    /** Only run tests matching this filter in `test` mode */
+    testFilter?: string;
+    args?: string[];
+    cwd?: string;
+    env?: Record<string, string>;
+    /** Set to false to debug `program` as it is */
+    build?: boolean;
+    program?: string;
+}
+
+/**
+ * Register the `c3` debug type, which builds with debug info and hands over to a native debugger.
+ */
+export function registerDebugProvider(context: vscode.ExtensionContext): void {
+    const provider: vscode.DebugConfigurationProvider = {
+        provideDebugConfigurations,
+        resolveDebugConfiguration,
+        resolveDebugConfigurationWithSubstitutedVariables,
+    };
+
+    context.subscriptions.push(
+        vscode.debug.registerDebugConfigurationProvider(C3_DEBUG_TYPE, provider),
+        vscode.debug.registerDebugConfigurationProvider(C3_DEBUG_TYPE, { provideDebugConfigurations }, vscode.DebugConfigurationProviderTriggerKind.Dynamic)
+    );
+}
+
+/**
+ * Debug a built program with CodeLLDB or the C/C++ extension, whichever is installed.
+ * Returns false if no native debugger is available or the session did not start.
+ */
+export async function startNativeDebugging(target: DebugTarget, folder?: vscode.WorkspaceFolder): Promise<boolean> {
+    const configuration = createNativeConfiguration(target);
+
+    if (!configuration) {
+        errorAndShow('Debugging C3 needs the CodeLLDB or the C/C++ extension');
+        return false;
+    }
+
+    info(`Debugging ${target.program} with ${configuration.type}`);
+    return vscode.debug.startDebugging(folder, configuration);
+}
+
+/**
+ * Launch configuration of the first installed native debugger, null if none is installed.
+ */
+export function createNativeConfiguration(target: DebugTarget): vscode.DebugConfiguration | null {
+    const debuggerType = NATIVE_DEBUGGERS.find(d => vscode.extensions.getExtension(d.extension))?.type;
+
+    switch (debuggerType) {
+        case 'lldb':
+            return {
+                type: 'lldb',
+                request: 'launch',
+                name: target.name,
+                program: target.program,
+                args: target.args,
+                cwd: target.cwd,
+                env: target.env,
+            };
+
+        case 'cppdbg':
+            return {
+                type: process.platform === 'win32' ? 'cppvsdbg' : 'cppdbg',
+                request: 'launch',
+                name: target.name,
+                program: target.program,
+                args: target.args,
+                cwd: target.cwd,
+                environment: Object.entries(target.env ?? {}).map(([name, value]) => ({ name, value })),
+                // cppdbg uses gdb by default, macOS only ships lldb
+                ...(process.platform === 'darwin' ? { MIMode: 'lldb' } : {}),
+            };
+
+        default:
+            return null;
+    }
+}
+
+/**
+ * Build with c3c, showing progress and publishing the reported diagnostics. Returns false if the build failed.
+ */
+export async function buildForDebugging(name: string, args: string[], cwd: string): Promise<boolean> {
+    const result = await vscode.window.withProgress(
+        { location: vscode.ProgressLocation.Notification, title: `Building ${name} for debugging`, cancellable: true },
+        (_, token) => runCompiler(args, cwd, undefined, token)
+    );
+
+    publishCompilerOutput(result.output, cwd);
+
+    if (result.exitCode !== 0) {
+        errorAndShow(`Building ${name} failed${result.exitCode !== null ? ` with exit code ${result.exitCode}` : ''}`);
+        return false;
+    }
+
+    return true;
+}
+
+/**
+ * Binaries built for debugging go to the temp folder, so they never end up in the project.
+ */
+export function getDebugBinaryPath(name: string): string {
+    const directory = path.join(os.tmpdir(), DEBUG_BUILD_FOLDER);
+    fs.mkdirSync(directory, { recursive: true });
+    return path.join(directory, process.platform === 'win32' ? `${name}.exe` : name);
+}
+
+/**
+ * Initial launch.json entries: one per executable project target, or the current file without a project.
+ */
+async function provideDebugConfigurations(folder: vscode.WorkspaceFolder | undefined): Promise<vscode.DebugConfiguration[]> {
+    const projects = (await findProjects()).filter(project =>
+        !folder || project.workspaceFolder?.uri.toString() === folder.uri.toString());
+
+    const configurations: C3DebugConfiguration[] = projects.flatMap(project => project.targets
+        .filter(target => target.type === 'executable')
+        .map(target => ({
+            type: C3_DEBUG_TYPE,
+            request: 'launch',
+            name: `Debug ${target.name}`,
+            mode: 'target' as const,
+            project: toWorkspacePath(project.uri.fsPath, folder),
+            target: target.name,
+            args: [],
+        })));
+
+    if (configurations.length === 0) {
+        configurations.push({
+            type: C3_DEBUG_TYPE,
+            request: 'launch',
+            name: 'Debug current file',
+            mode: 'file',
+            file: '${file}',
+            args: [],
+        });
+    }
+
+    return configurations;
+}
+
+/**
+ * Pressing F5 without a launch.json debugs the active C3 file.
+ */
+function resolveDebugConfiguration(_folder: vscode.WorkspaceFolder | undefined, config: vscode.DebugConfiguration): vscode.DebugConfiguration | undefined {
+    if (config.type || config.request || config.name) {
+        return config;
+    }
+
+    if (vscode.window.activeTextEditor?.document.languageId !== C3_LANGUAGE_ID) {
+        return config;
+    }
+
+    return { type: C3_DEBUG_TYPE, request: 'launch', name: 'Debug current file', mode: 'file', file: '${file}' };
+}
+
+/**
+ * Build the requested binary with debug info and turn the configuration into a native debugger one.
+ * Returning undefined aborts the launch, errors are shown to the user.
+ */
+async function resolveDebugConfigurationWithSubstitutedVariables(
+    folder: vscode.WorkspaceFolder | undefined,
+    config: C3DebugConfiguration
+): Promise<vscode.DebugConfiguration | undefined> {
+    const target = await prepareDebugTarget(folder, config);
+
+    if (!target) {
+        return undefined;
+    }
+
+    const native = createNativeConfiguration(target);
+
+    if (!native) {
+        errorAndShow('Debugging C3 needs the CodeLLDB or the C/C++ extension');
+        return undefined;
+    }
+
+    info(`Debugging ${target.program} with ${native.type}`);
+    return native;
+}
+
+async function prepareDebugTarget(folder: vscode.WorkspaceFolder | undefined, config: C3DebugConfiguration): Promise<DebugTarget | undefined> {
+    const mode = config.mode ?? (config.target ? 'target' : 'file');
+    const file = config.file ?? (mode === 'file' ? getActiveFile() : undefined);
+    const project = mode === 'file' || (mode === 'test' && config.file) ? null : await findDebugProject(folder, config);
+
+    let name: string;
+    let cwd: string;
+    let buildArgs: string[];
+    let programArgs = config.args ?? [];
+
+    if (mode === 'file' || !project) {
+        if (!file) {
+            errorAndShow(mode === 'file' ? 'Open a C3 file to debug it' : 'No project.json found to debug');
+            return undefined;
+        }
+
+        name = path.parse(file).name + (mode === 'test' ? '-tests' : '');
+        cwd = path.dirname(file);
+        buildArgs = mode === 'test' ? [C3C_COMMANDS.COMPILE_TEST, file, C3C_FLAGS.NO_RUN] : [C3C_COMMANDS.COMPILE, file];
+    } else if (mode === 'test') {
+        name = `${path.basename(project.directory.fsPath)}-tests`;
+        cwd = project.directory.fsPath;
+        buildArgs = [C3C_COMMANDS.TEST, C3C_FLAGS.NO_RUN];
+    } else {
+        const targetName = config.target ?? getProfileTarget(project, ['executable'])?.name ?? await pickTarget(project);
+
+        if (!targetName) {
+            return undefined;
+        }
+
+        name = targetName;
+        cwd = project.directory.fsPath;
+        buildArgs = [C3C_COMMANDS.BUILD, targetName];
+    }
+
+    const platform = config.platform ?? getBuildProfile(folder).platform;
+
+    if (platform) {
+        buildArgs.push(C3C_FLAGS.TARGET, platform);
+    }
+
+    if (mode === 'test' && config.testFilter) {
+        // The test runner takes the same filter option as c3c
+        programArgs = [C3C_FLAGS.TEST_FILTER, config.testFilter, ...programArgs];
+    }
+
+    const program = config.build === false && config.program ? config.program : getDebugBinaryPath(name);
+
+    if (config.build !== false) {
+        const built = await buildForDebugging(name, [...buildArgs, C3C_FLAGS.DEBUG_INFO, C3C_FLAGS.OUTPUT, program], cwd);
+
+        if (!built) {
+            return undefined;
+        }
+    }
+
+    return { name: config.name, program, args: programArgs, cwd: config.cwd ?? cwd, env: config.env };
+}
+
+/**
+ * The configured project, or the first one of the folder.
+ */
+async function findDebugProject(folder: vscode.WorkspaceFolder | undefined, config: C3DebugConfiguration): Promise<Project | null> {
+    if (config.project) {
+        const file = path.isAbsolute(config.project) || !folder ? config.project : path.join(folder.uri.fsPath, config.project);
+        return readProject(vscode.Uri.file(file));
+    }
+
+    const projects = (await findProjects()).filter(project =>
+        !folder || project.workspaceFolder?.uri.toString() === folder.uri.toString());
+
+    const targetName = config.target ?? getBuildProfile(folder).target;
+    return projects.find(project => project.targets.some(t => t.name === targetName)) ?? projects.at(0) ?? null;
+}
+
+async function pickTarget(project: Project): Promise<string | undefined> {
+    const executables = project.targets.filter(target => target.type === 'executable').map(target => target.name);
+
+    if (executables.length <= 1) {
+        if (executables.length === 0) {
+            errorAndShow(`${project.uri.fsPath} has no executable target`);
+        }
+        return executables[0];
+    }
+
+    return vscode.window.showQuickPick(executables, { title: 'Select target to debug' });
+}
+
+function getActiveFile(): string | undefined {
+    const document = vscode.window.activeTextEditor?.document;
+    return document?.languageId === C3_LANGUAGE_ID && document.uri.scheme === 'file' ? document.uri.fsPath : undefined;
+}
+
+/**
+ * Paths in launch.json are written relative to the workspace folder.
+ */
+function toWorkspacePath(file: string, folder: vscode.WorkspaceFolder | undefined): string {
+    return folder ? `\${workspaceFolder}/${path.relative(folder.uri.fsPath, file).replace(/\\/g, '/')}` : file;
+}
@@ -0,0 +1,110 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { C3C_DIAGNOSTIC_SOURCE } from './constants';
+import { info } from './logger';
+import { CompilerMessage, parseCompilerOutput } from './text';
+
+let collection: vscode.DiagnosticCollection | null = null;
+
+/** Files each build folder reported, its next build replaces them even when they lie outside of it */
+const reportedFiles = new Map<string, string[]>();
+
+/**
+ * Create the diagnostic collection used for compiler output.
+ */
+export function initializeBuildDiagnostics(context: vscode.ExtensionContext): void {
+    collection = vscode.languages.createDiagnosticCollection(C3C_DIAGNOSTIC_SOURCE);
+    context.subscriptions.push(collection);
+}
+
+/**
+ * Remove all diagnostics that were reported by previous builds.
+ */
+export function clearBuildDiagnostics(): void {
+    collection?.clear();
+    reportedFiles.clear();
+}
+
+/**
+ * Parse c3c output and replace the build diagnostics of `cwd` with its messages, diagnostics of
+ * other projects' builds are kept. Relative paths are resolved against `cwd`.
+ */
+export function publishCompilerOutput(output: string, cwd: string): void {
+    if (!collection) {
+        return;
+    }
+
+    const messages = parseCompilerOutput(output);
+    const byFile = new Map<string, vscode.Diagnostic[]>();
+
+    for (const message of messages) {
+        const file = path.resolve(cwd, message.file);
+        const diagnostic = toDiagnostic(message, cwd);
+
+        byFile.set(file, [...(byFile.get(file) ?? []), diagnostic]);
+    }
+
+    const folder = path.resolve(cwd);
+    const previous = new Set(reportedFiles.get(folder));
+    const stale: vscode.Uri[] = [];
+
+    collection.forEach(uri => {
+        if (previous.has(uri.fsPath) || isInside(folder, uri.fsPath)) {
+            stale.push(uri);
+        }
+    });
+
+    for (const uri of stale) {
+        collection.delete(uri);
+    }
+
+    reportedFiles.set(folder, [...byFile.keys()].map(file => vscode.Uri.file(file).fsPath));
+    for (const [file, diagnostics] of byFile) {
+        collection.set(vscode.Uri.file(file), diagnostics);
+    }
+
+    info(`Build reported ${messages.length} diagnostics in ${byFile.size} files`);
+}
+
+/**
+ * Convert a compiler message into a VS Code diagnostic.
+ */
+function toDiagnostic(message: CompilerMessage, cwd: string): vscode.Diagnostic {
+    const diagnostic = new vscode.Diagnostic(toRange(message), message.message, toSeverity(message.severity));
+    diagnostic.source = C3C_DIAGNOSTIC_SOURCE;
+
+    if (message.notes.length > 0) {
+        diagnostic.relatedInformation = message.notes.map(note => new vscode.DiagnosticRelatedInformation(
+            new vscode.Location(vscode.Uri.file(path.resolve(cwd, note.file)), toRange(note)),
+            note.message
+        ));
+    }
+
+    return diagnostic;
+}
+
+function isInside(folder: string, file: string): boolean {
+    const relative = path.relative(folder, file);
+    return !relative.startsWith('..') && !path.isAbsolute(relative);
+}
+
+function toRange(message: CompilerMessage): vscode.Range {
+    return new vscode.Range(
+        message.line,
+        message.column,
+        message.line,
+        message.column + Math.max(message.length, 1)
+    );
+}
+
+function toSeverity(severity: CompilerMessage['severity']): vscode.DiagnosticSeverity {
+    switch (severity) {
+        case 'error':
+            return vscode.DiagnosticSeverity.Error;
+        case 'warning':
+            return vscode.DiagnosticSeverity.Warning;
+        case 'note':
+        default:
+            return vscode.DiagnosticSeverity.Information;
+    }
+}
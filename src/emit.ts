@@ -0,0 +1,404 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { C3C_COMMANDS, C3C_FLAGS, C3C_OPTIMIZATION_LEVELS, C3_EMIT_SCHEME, C3_LANGUAGE_ID, EMIT_BUILD_FOLDER } from './constants';
+import { findFunctions } from './source';
+import { findProjectForFile } from './project';
+import { listTargets, runCompiler } from './compiler';
+import { publishCompilerOutput } from './diagnostics';
+import { error, info } from './logger';
+import { getBuildProfile, getProfileTarget } from './profile';
+import { SourceLocation, mapAsmLines, mapLLVMLines } from './text';
+
+export type EmitKind = 'llvm' | 'asm';
+
+/**
+ * An open LLVM IR or assembly document and how it is compiled
+ */
+interface EmitView {
+    kind: EmitKind;
+    source: vscode.Uri;
+    /** Optimization level without the leading `-` */
+    optimization: string;
+    /** Target passed with `--target`, unset for the build profile's platform */
+    target: string | undefined;
+    /** c3c command and input, `build <target>` in a project or `compile-only <file>` */
+    command: string[];
+    cwd: string;
+    /** Set for project builds, saving any file below it refreshes the view */
+    projectDirectory: string | undefined;
+    /** Output folder in the temp directory */
+    directory: string;
+    text: string;
+    /** Source location of each line of `text` */
+    locations: (SourceLocation | undefined)[];
+    /** Function the highlight was last computed for, the view only scrolls when it changes */
+    highlighted: string | undefined;
+}
+
+const EMIT_KINDS = {
+    llvm: { title: 'LLVM IR', extension: '.ll', comment: ';', emitFlag: C3C_FLAGS.EMIT_LLVM, outFlag: C3C_FLAGS.LLVM_OUT, languages: ['llvm'] },
+    asm: { title: 'Assembly', extension: '.s', comment: '#', emitFlag: C3C_FLAGS.EMIT_ASM, outFlag: C3C_FLAGS.ASM_OUT, languages: ['asm', 'gas', 'x86'] },
+} as const;
+
+/** Open views by document URI */
+const views = new Map<string, EmitView>();
+const contentChanged = new vscode.EventEmitter<vscode.Uri>();
+let highlight: vscode.TextEditorDecorationType | null = null;
+
+/** Options for new views, the last ones picked */
+let defaultOptions: { optimization: string; target: string | undefined } = { optimization: 'O0', target: undefined };
+
+/**
+ * Register the read-only LLVM IR and assembly documents, refreshed on save and highlighted for the function under the cursor.
+ */
+export function registerEmitView(context: vscode.ExtensionContext): void {
+    highlight = vscode.window.createTextEditorDecorationType({
+        backgroundColor: new vscode.ThemeColor('editor.rangeHighlightBackground'),
+        isWholeLine: true,
+    });
+
+    const provider = vscode.workspace.registerTextDocumentContentProvider(C3_EMIT_SCHEME, {
+        provideTextDocumentContent: uri => views.get(uri.toString())?.text ?? '',
+        onDidChange: contentChanged.event,
+    });
+
+    context.subscriptions.push(
+        provider,
+        highlight,
+        contentChanged,
+        vscode.workspace.onDidSaveTextDocument(document => void refreshViews(document)),
+        // Setting the language closes and reopens the document, so views end with their last tab instead
+        vscode.window.tabGroups.onDidChangeTabs(event => closeViews(event.closed)),
+        vscode.window.onDidChangeTextEditorSelection(event => {
+            if (event.textEditor.document.languageId === C3_LANGUAGE_ID && views.size > 0) {
+                updateHighlights();
+            }
+        }),
+        vscode.window.onDidChangeVisibleTextEditors(() => updateHighlights()),
+        { dispose: () => [...views.keys()].forEach(key => closeView(vscode.Uri.parse(key))) }
+    );
+}
+
+/**
+ * Compile the active file, or its project target, with `--emit-llvm` or `--emit-asm` and show the output beside it.
+ */
+export async function showEmitted(kind: EmitKind, uri = getActiveUri()): Promise<void> {
+    if (!uri) {
+        info(`Open a C3 file to show its ${EMIT_KINDS[kind].title}`);
+        return;
+    }
+
+    const emitUri = getEmitUri(kind, uri);
+    const existing = views.get(emitUri.toString());
+    const view = existing ?? await createView(kind, uri);
+
+    if (!view) {
+        return;
+    }
+
+    const document = vscode.workspace.textDocuments.find(d => d.uri.toString() === uri.toString());
+    const saved = document?.isDirty ? await document.save() : false;
+
+    // Saving already refreshes an open view
+    if (!existing || !saved) {
+        views.set(emitUri.toString(), view);
+        await compile(emitUri, view);
+    }
+
+    const emitted = await setLanguage(await vscode.workspace.openTextDocument(emitUri), kind);
+    await vscode.window.showTextDocument(emitted, { viewColumn: vscode.ViewColumn.Beside, preserveFocus: true, preview: false });
+
+    view.highlighted = undefined;
+    updateHighlights();
+}
+
+/**
+ * Pick the optimization level and target of the active IR or assembly view, or of views opened next.
+ */
+export async function setEmitOptions(uri = vscode.window.activeTextEditor?.document.uri): Promise<void> {
+    const view = uri && views.get(uri.toString());
+    const current = view ?? defaultOptions;
+
+    const optimization = await vscode.window.showQuickPick(
+        C3C_OPTIMIZATION_LEVELS.map(level => ({ label: level, description: level === current.optimization ? 'current' : undefined })),
+        { title: 'Optimization level' }
+    );
+
+    if (!optimization) {
+        return;
+    }
+
+    const targets = await listTargets(view?.source);
+    const target = await vscode.window.showQuickPick(
+        [
+            { label: 'Build profile', description: current.target === undefined ? 'current' : 'the platform picked in the status bar', target: undefined },
+            ...targets.map(t => ({ label: t, description: t === current.target ? 'current' : undefined, target: t })),
+        ],
+        { title: 'Target' }
+    );
+
+    if (!target) {
+        return;
+    }
+
+    defaultOptions = { optimization: optimization.label, target: target.target };
+
+    if (uri && view) {
+        Object.assign(view, defaultOptions);
+        await compile(uri, view);
+        view.highlighted = undefined;
+        updateHighlights();
+    }
+}
+
+/**
+ * Files in a project are compiled through the build profile's target, or the project's executable target,
+ * picked if there are several.
+ * Other files are compiled on their own without linking.
+ */
+async function createView(kind: EmitKind, source: vscode.Uri): Promise<EmitView | undefined> {
+    const project = await findProjectForFile(source);
+    const executables = project?.targets.filter(t => t.type === 'executable') ?? [];
+    let command = [C3C_COMMANDS.COMPILE_ONLY, source.fsPath];
+    let cwd = path.dirname(source.fsPath);
+
+    if (project && executables.length > 0) {
+        const target = getProfileTarget(project, ['executable'])?.name
+            ?? (executables.length === 1
+                ? executables[0].name
+                : await vscode.window.showQuickPick(executables.map(t => t.name), { title: 'Select target to compile' }));
+
+        if (!target) {
+            return undefined;
+        }
+
+        command = [C3C_COMMANDS.BUILD, target];
+        cwd = project.directory.fsPath;
+    }
+
+    const base = path.join(os.tmpdir(), EMIT_BUILD_FOLDER);
+    fs.mkdirSync(base, { recursive: true });
+
+    return {
+        kind,
+        source,
+        ...defaultOptions,
+        command,
+        cwd,
+        projectDirectory: command[0] === C3C_COMMANDS.BUILD ? cwd : undefined,
+        directory: fs.mkdtempSync(path.join(base, `${kind}-`)),
+        text: '',
+        locations: [],
+        highlighted: undefined,
+    };
+}
+
+async function compile(uri: vscode.Uri, view: EmitView): Promise<void> {
+    const { title, extension, comment, emitFlag, outFlag } = EMIT_KINDS[view.kind];
+    const args = [
+        ...view.command,
+        emitFlag,
+        outFlag, view.directory,
+        C3C_FLAGS.BUILD_DIR, view.directory,
+        // Debug info maps the output back to source lines
+        C3C_FLAGS.DEBUG_INFO,
+        `-${view.optimization}`,
+    ];
+
+    const platform = view.target ?? getBuildProfile(vscode.workspace.getWorkspaceFolder(view.source)).platform;
+
+    if (platform) {
+        args.push(C3C_FLAGS.TARGET, platform);
+    }
+
+    fs.rmSync(view.directory, { recursive: true, force: true });
+    fs.mkdirSync(view.directory, { recursive: true });
+
+    const result = await vscode.window.withProgress(
+        { location: vscode.ProgressLocation.Window, title: `Compiling ${title} for ${path.basename(view.source.fsPath)}` },
+        () => runCompiler(args, view.cwd)
+    );
+
+    publishCompilerOutput(result.output, view.cwd);
+
+    const lines = [`${comment} c3c ${args.join(' ')}`];
+    const locations: (SourceLocation | undefined)[] = [undefined];
+    const append = (content: string[], mapped = content.map(() => undefined as SourceLocation | undefined)) => {
+        lines.push(...content);
+        locations.push(...mapped);
+    };
+
+    if (result.exitCode !== 0) {
+        append([`${comment} Compilation failed with exit code ${result.exitCode ?? 'unknown'}`]);
+        append(result.output.split(/\r?\n/).map(line => `${comment} ${line}`));
+    } else {
+        const files = findOutputFiles(view.directory, extension, view.source);
+
+        if (files.length === 0) {
+            append([`${comment} c3c did not write any ${extension} files`]);
+        }
+
+        for (const file of files) {
+            const content = fs.readFileSync(file, 'utf8').split(/\r?\n/);
+
+            if (files.length > 1) {
+                append(['', `${comment} ${path.relative(view.directory, file)}`]);
+            }
+
+            // Debug metadata IDs and file numbers are per file
+            append(content, view.kind === 'llvm' ? mapLLVMLines(content) : mapAsmLines(content));
+        }
+    }
+
+    view.text = lines.join('\n');
+    view.locations = locations;
+    contentChanged.fire(uri);
+}
+
+/**
+ * Output files for the source's modules, or all of them if none can be told apart.
+ */
+function findOutputFiles(directory: string, extension: string, source: vscode.Uri): string[] {
+    const files: string[] = [];
+    const visit = (dir: string) => {
+        for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+            const file = path.join(dir, entry.name);
+
+            if (entry.isDirectory()) {
+                visit(file);
+            } else if (entry.name.endsWith(extension)) {
+                files.push(file);
+            }
+        }
+    };
+
+    visit(directory);
+    files.sort();
+
+    // Debug info names the source file in each module's output
+    const name = path.basename(source.fsPath);
+    const matching = files.filter(file => fs.readFileSync(file, 'utf8').includes(`"${name}"`));
+    return matching.length > 0 ? matching : files;
+}
+
+/**
+ * Highlight the lines generated for the function under the cursor in every visible view of its source.
+ */
+function updateHighlights(): void {
+    if (!highlight) {
+        return;
+    }
+
+    for (const editor of vscode.window.visibleTextEditors) {
+        const view = editor.document.uri.scheme === C3_EMIT_SCHEME ? views.get(editor.document.uri.toString()) : undefined;
+        const sourceEditor = view && vscode.window.visibleTextEditors.find(e => e.document.uri.toString() === view.source.toString());
+
+        if (!view || !sourceEditor) {
+            continue;
+        }
+
+        const position = sourceEditor.selection.active;
+        const fn = findFunctions(sourceEditor.document).find(f => f.fullRange.contains(position));
+        const ranges: vscode.Range[] = [];
+
+        if (fn) {
+            view.locations.forEach((location, line) => {
+                if (location && location.line >= fn.fullRange.start.line && location.line <= fn.fullRange.end.line && isSameFile(location.file, view.source)) {
+                    ranges.push(new vscode.Range(line, 0, line, 0));
+                }
+            });
+        }
+
+        editor.setDecorations(highlight, ranges);
+
+        const key = fn && `${fn.name}:${fn.fullRange.start.line}`;
+        if (ranges.length > 0 && key !== view.highlighted) {
+            editor.revealRange(ranges[0], vscode.TextEditorRevealType.InCenterIfOutsideViewport);
+        }
+        view.highlighted = key;
+    }
+}
+
+/**
+ * Recompile the views of a saved file, or of any file in their project.
+ */
+async function refreshViews(document: vscode.TextDocument): Promise<void> {
+    if (document.languageId !== C3_LANGUAGE_ID) {
+        return;
+    }
+
+    for (const [key, view] of views) {
+        const affected = view.source.toString() === document.uri.toString()
+            || (view.projectDirectory !== undefined && document.uri.fsPath.startsWith(view.projectDirectory + path.sep));
+
+        if (affected) {
+            try {
+                await compile(vscode.Uri.parse(key), view);
+            } catch (err) {
+                error(`Failed to refresh ${EMIT_KINDS[view.kind].title} of ${view.source.fsPath}`, err);
+            }
+        }
+    }
+
+    updateHighlights();
+}
+
+/**
+ * Drop the views of closed tabs that are not shown in another tab.
+ */
+function closeViews(closed: readonly vscode.Tab[]): void {
+    const open = new Set(vscode.window.tabGroups.all
+        .flatMap(group => group.tabs)
+        .map(tab => tab.input instanceof vscode.TabInputText ? tab.input.uri.toString() : undefined));
+
+    for (const tab of closed) {
+        if (tab.input instanceof vscode.TabInputText && !open.has(tab.input.uri.toString())) {
+            closeView(tab.input.uri);
+        }
+    }
+}
+
+function closeView(uri: vscode.Uri): void {
+    const view = uri.scheme === C3_EMIT_SCHEME ? views.get(uri.toString()) : undefined;
+
+    if (view) {
+        views.delete(uri.toString());
+        fs.rmSync(view.directory, { recursive: true, force: true });
+    }
+}
+
+/**
+ * One view per source file and kind, named after the source so the tab title is recognizable.
+ */
+function getEmitUri(kind: EmitKind, source: vscode.Uri): vscode.Uri {
+    return vscode.Uri.from({
+        scheme: C3_EMIT_SCHEME,
+        path: `/${path.basename(source.fsPath)}${EMIT_KINDS[kind].extension}`,
+        query: `${kind}&${source.toString()}`,
+    });
+}
+
+/**
+ * Use a syntax highlighting extension for the output if one is installed.
+ */
+async function setLanguage(document: vscode.TextDocument, kind: EmitKind): Promise<vscode.TextDocument> {
+    const languages = await vscode.languages.getLanguages();
+    const language = EMIT_KINDS[kind].languages.find(id => languages.includes(id));
+
+    return language && document.languageId !== language
+        ? vscode.languages.setTextDocumentLanguage(document, language)
+        : document;
+}
+
+function isSameFile(file: string, source: vscode.Uri): boolean {
+    return path.isAbsolute(file)
+        ? path.normalize(file) === path.normalize(source.fsPath)
+        : path.basename(file) === path.basename(source.fsPath);
+}
+
+function getActiveUri(): vscode.Uri | undefined {
+    const document = vscode.window.activeTextEditor?.document;
+    return document?.languageId === C3_LANGUAGE_ID && document.uri.scheme === 'file' ? document.uri : undefined;
+}
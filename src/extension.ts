@@ -2,25 +2,81 @@ import * as vscode from 'vscode';
 import * as lsp from './lsp';
 import { info, disposeLogger, errorAndShow, initializeLogger } from './logger';
 import * as format from './format';
+import * as toolchain from './toolchain';
 import { registerCommands } from './command';
+import { registerTaskProvider } from './task';
+import { initializeBuildDiagnostics } from './diagnostics';
+import { registerTestController } from './testing';
+import { registerBenchmarks } from './benchmark';
+import { registerRunCodeLens } from './run';
+import { registerDebugProvider } from './debug';
+import { registerEmitView } from './emit';
+import { registerProjectValidation } from './validation';
+import { registerConfigWatcher } from './watcher';
+import { registerWalkthrough } from './walkthrough';
+import { registerBuildProfile } from './profile';
+import { registerVersionDecorations } from './availability';
 
 /**
  * Called when the extension is activated.
  */
 export async function activate(context: vscode.ExtensionContext): Promise<void> {
-    initializeLogger();
+    initializeLogger(context);
     info('Extension activating...');
 
     try {
         // Register commands (restart LSP, show versions, etc.)
         registerCommands(context);
 
+        // Check off getting started steps as tools are set up
+        registerWalkthrough(context);
+
         // Register the code formatter
         format.registerFormatter(context);
 
+        // Collect diagnostics from c3c build output
+        initializeBuildDiagnostics(context);
+
+        // Project target and platform picked in the status bar, used by tasks, run, debug and the LSP
+        registerBuildProfile(context);
+
+        // Register c3c project tasks (build, run, test, clean)
+        registerTaskProvider(context);
+
+        // Discover and run @test functions in the Test Explorer
+        registerTestController(context);
+
+        // Run and Debug CodeLens on main and @test functions
+        registerRunCodeLens(context);
+        registerDebugProvider(context);
+
+        // Read-only LLVM IR and assembly views
+        registerEmitView(context);
+
+        // Benchmark CodeLens and results view
+        registerBenchmarks(context);
+
+        // Strike through keywords missing from the configured language version
+        registerVersionDecorations(context);
+
+        // Validate and complete project.json and manifest.json
+        registerProjectValidation(context);
+
+        // Show the Language Server state in the status bar
+        lsp.registerLSPStatus(context);
+
+        // Restart the Language Server and formatter when their settings change
+        registerConfigWatcher(context);
+
+        // Start and stop Language Servers with workspace folders
+        lsp.registerWorkspaceFolderWatcher(context);
+
         // Start the Language Server
         await lsp.startLSP(context);
 
+        // Report broken tool paths, in the background since it runs every tool
+        void toolchain.validateToolchainOnStartup(context);
+
         info('Extension activated successfully');
     } catch (err) {
         const message = err instanceof Error ? err.message : 'Unknown error';
@@ -35,5 +91,5 @@ export async function deactivate(): Promise<void> {
     info('Extension deactivating...');
 
     await lsp.stopLSP();
-    disposeLogger();
+    await disposeLogger();
 }
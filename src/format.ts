@@ -1,57 +1,84 @@
 import * as vscode from 'vscode';
 import * as cp from 'child_process';
+import * as util from 'util';
 import * as semver from 'semver';
-import { spawn, ChildProcess } from 'child_process';
-import { getFMTConfig } from './config';
-import { C3_LANGUAGE_ID, FMT_FLAGS } from './constants';
-import { error, errorAndShow } from './logger';
+import { spawn } from 'child_process';
+import * as conf from './config';
+import { C3_FMT_RELEASES_URL, C3_LANGUAGE_ID, FMT_EXECUTABLE_NAME, FMT_FLAGS, FMT_INSTALL_FOLDER, TOOL_VERSION_TIMEOUT } from './constants';
+import { error, errorAndShow, info, infoAndShow } from './logger';
+import { downloadAndExtractArtifact } from './utils';
+import { ReleaseInfo, fetchReleases, getPlatformKey } from './release';
+import { showSetupWalkthrough } from './walkthrough';
+import { diffLines } from './text';
+
+const execFile = util.promisify(cp.execFile);
+
+/** Above this many changed lines (old * new) edits are not minimized and the changed block is replaced */
+const MAX_DIFF_SIZE = 4_000_000;
 
 /**
- * Register the formatting provider with VS Code.
+ * Register the formatting providers with VS Code.
  */
 export function registerFormatter(context: vscode.ExtensionContext): void {
-    const provider = vscode.languages.registerDocumentFormattingEditProvider(
-        [
-            { language: C3_LANGUAGE_ID, scheme: 'file' },
-            { language: C3_LANGUAGE_ID, scheme: 'untitled' },
-        ],
-        {
-            provideDocumentFormattingEdits: formatDocument
-        }
-    );
+    const selector: vscode.DocumentSelector = [
+        { language: C3_LANGUAGE_ID, scheme: 'file' },
+        { language: C3_LANGUAGE_ID, scheme: 'untitled' },
+    ];
+
+    const provider = vscode.languages.registerDocumentFormattingEditProvider(selector, {
+        provideDocumentFormattingEdits: formatDocument
+    });
+
+    const rangeProvider = vscode.languages.registerDocumentRangeFormattingEditProvider(selector, {
+        provideDocumentRangeFormattingEdits: formatRange
+    });
+
+    context.subscriptions.push(provider, rangeProvider);
+
+    UpdateOrInstallFMT(context);
+}
 
-    context.subscriptions.push(provider);
+/**
+ * Re-run the install and update check, e.g. after the formatter was enabled.
+ */
+export async function reinitializeFormatter(context: vscode.ExtensionContext): Promise<void> {
+    await UpdateOrInstallFMT(context);
+}
 
-    UpdateOrInstallFMT(context.globalStorageUri);
+/**
+ * Install the latest C3FMT release and turn formatting on, used by the getting started walkthrough.
+ */
+export async function installFormatter(context: vscode.ExtensionContext): Promise<void> {
+    if (await installFMT(context.globalStorageUri) && !conf.getFMTConfig().enabled) {
+        await conf.updateFMTEnabled(true);
+        info('Enabled C3FMT formatting');
+    }
 }
 
 /**
  * Format an entire document. Registers as a DocumentFormattingEditProvider.
  */
-async function formatDocument(document: vscode.TextDocument): Promise<vscode.TextEdit[]> {
-    const config = getFMTConfig();
+async function formatDocument(document: vscode.TextDocument, _options?: vscode.FormattingOptions, token?: vscode.CancellationToken): Promise<vscode.TextEdit[]> {
+    const config = conf.getFMTConfig();
 
     if (!config.enabled) {
         return [];
     }
 
+    if (!config.path) {
+        errorAndShow('C3FMT path is not configured');
+        return [];
+    }
+
     try {
-        const formattedText = await runC3FMT(
-            document.uri.fsPath,
-            config.path!,
-            config.configPath);
+        const formattedText = await runC3FMT(document.getText(), config.path, config.configPath, token);
 
-        if (!formattedText) {
+        if (formattedText === null) {
             error(`Error formatting document ${document.uri.fsPath}`);
             return [];
         }
 
-        const entireDocument = new vscode.Range(
-            document.positionAt(0),
-            document.positionAt(document.getText().length)
-        );
-
-        return [vscode.TextEdit.replace(entireDocument, formattedText)];
+        return computeMinimalEdits(document, formattedText);
     } catch (err) {
         errorAndShow(`Format failed: ${err instanceof Error ? err.message : 'Unknown error'}`);
         return [];
@@ -59,9 +86,18 @@ async function formatDocument(document: vscode.TextDocument): Promise<vscode.Tex
 }
 
 /**
- * Run clang-format on the given text.
+ * Format a range. c3fmt only formats whole files, so the document is formatted and
+ * only the edits touching the range are kept. Registers as a DocumentRangeFormattingEditProvider.
+ */
+async function formatRange(document: vscode.TextDocument, range: vscode.Range, options: vscode.FormattingOptions, token: vscode.CancellationToken): Promise<vscode.TextEdit[]> {
+    const edits = await formatDocument(document, options, token);
+    return edits.filter(edit => edit.range.intersection(range) !== undefined);
+}
+
+/**
+ * Run c3fmt on the given text through stdin. Returns null if formatting failed.
  */
-async function runC3FMT(fileName: string, path: string, configPath: string | undefined): Promise<string | null> {
+function runC3FMT(text: string, path: string, configPath: string | undefined, token?: vscode.CancellationToken): Promise<string | null> {
     const args: string[] = [];
 
     if (configPath) {
@@ -70,97 +106,220 @@ async function runC3FMT(fileName: string, path: string, configPath: string | und
         args.push(FMT_FLAGS.FORCE_DEFAULT);
     }
 
+    args.push(FMT_FLAGS.STDIN);
     args.push(FMT_FLAGS.STDOUT);
-    args.push(fileName);
 
-    const proc: ChildProcess = spawn(path, args);
+    return new Promise((resolve) => {
+        const proc = spawn(path, args);
 
-    let stdout = '';
-    let stderr = '';
+        let stdout = '';
+        let stderr = '';
 
-    proc.stdout?.on('data', (chunk: Buffer) => {
-        stdout += chunk.toString();
-    });
+        proc.stdout.on('data', (chunk: Buffer) => {
+            stdout += chunk.toString();
+        });
 
-    proc.stderr?.on('data', (chunk: Buffer) => {
-        stderr += chunk.toString();
-    });
+        proc.stderr.on('data', (chunk: Buffer) => {
+            stderr += chunk.toString();
+        });
 
-    proc.on('error', (err) => {
-        error(`Failed to start C3FMT: ${err.message}`);
-        return null;
-    });
+        const cancellation = token?.onCancellationRequested(() => proc.kill());
 
-    proc.on('close', (exitCode) => {
-        if (exitCode !== 0) {
-            error(`C3FMT exited with code ${exitCode}: ${stderr}`);
-            return null;
-        } else {
-            return stdout;
-        }
-    });
+        proc.on('error', (err) => {
+            error(`Failed to start C3FMT: ${err.message}`);
+            cancellation?.dispose();
+            resolve(null);
+        });
 
-    return null;
+        proc.on('close', (exitCode) => {
+            cancellation?.dispose();
+
+            if (exitCode !== 0) {
+                error(`C3FMT exited with code ${exitCode}: ${stderr}`);
+                resolve(null);
+            } else {
+                resolve(stdout);
+            }
+        });
+
+        // Ignore EPIPE if c3fmt exits before reading all input, the close handler reports the failure
+        proc.stdin.on('error', () => { });
+        proc.stdin.end(text);
+    });
 }
 
-async function UpdateOrInstallFMT(directory: vscode.Uri): Promise<void> {
-    const config = getFMTConfig();
+/**
+ * Compute line based edits that turn the document into `newText`, so unchanged
+ * lines keep their markers, folding and cursor positions.
+ */
+function computeMinimalEdits(document: vscode.TextDocument, newText: string): vscode.TextEdit[] {
+    const eol = document.eol === vscode.EndOfLine.CRLF ? '\r\n' : '\n';
+    const oldLines = document.getText().split(/\r?\n/);
+    const newLines = newText.split(/\r?\n/);
+
+    // Skip the common prefix and suffix, formatters usually only touch a few places
+    let start = 0;
+    while (start < oldLines.length && start < newLines.length && oldLines[start] === newLines[start]) {
+        start++;
+    }
 
-    if (!config.path) {
-        const choice = await vscode.window.showInformationMessage(
-            'C3FMT is not installed. Would you like to install it now?',
-            'Install',
-            'Skip'
-        );
+    let oldEnd = oldLines.length;
+    let newEnd = newLines.length;
+    while (oldEnd > start && newEnd > start && oldLines[oldEnd - 1] === newLines[newEnd - 1]) {
+        oldEnd--;
+        newEnd--;
+    }
 
-        if (choice === 'Install') {
-            return installFMT(directory);
+    const oldMiddle = oldLines.slice(start, oldEnd);
+    const newMiddle = newLines.slice(start, newEnd);
+
+    if (oldMiddle.length === 0 && newMiddle.length === 0) {
+        return [];
+    }
+
+    const hunks = oldMiddle.length * newMiddle.length > MAX_DIFF_SIZE
+        ? [{ oldStart: 0, oldEnd: oldMiddle.length, newStart: 0, newEnd: newMiddle.length }]
+        : diffLines(oldMiddle, newMiddle);
+
+    return hunks.map(hunk => {
+        const text = newMiddle.slice(hunk.newStart, hunk.newEnd);
+        const from = start + hunk.oldStart;
+        const to = start + hunk.oldEnd;
+
+        // Replace whole lines including their line break, the last line has none
+        if (to < oldLines.length) {
+            return vscode.TextEdit.replace(
+                new vscode.Range(from, 0, to, 0),
+                text.map(line => line + eol).join('')
+            );
         }
+
+        const range = new vscode.Range(
+            from === 0 ? new vscode.Position(0, 0) : document.lineAt(from - 1).range.end,
+            document.lineAt(oldLines.length - 1).range.end
+        );
+        const prefix = from === 0 || text.length === 0 ? '' : eol;
+        return vscode.TextEdit.replace(range, prefix + text.join(eol));
+    });
+}
+
+/**
+ * Check if a newer version is available or is it installed. Prompt user to update or setup if so.
+ */
+async function UpdateOrInstallFMT(context: vscode.ExtensionContext): Promise<void> {
+    const config = conf.getFMTConfig();
+    const directory = context.globalStorageUri;
+
+    if (!config.enabled) {
         return;
     }
 
-    const installedVersion = getInstalledVersionInfo(config.path);
+    if (!config.path) {
+        return showSetupWalkthrough(context, 'C3FMT is not installed');
+    }
+
+    const installedVersion = await getInstalledVersionInfo(config.path);
 
     if (!installedVersion) {
         errorAndShow('Failed to determine installed C3FMT version.');
         return;
     }
 
-    const latestVersion = await getLatestVersionInfo();
+    if (conf.getC3Config().offline) {
+        info('Offline mode, skipping C3FMT update check');
+        return;
+    }
+
+    let latest: ReleaseInfo | null;
 
-    if (!latestVersion) {
+    try {
+        latest = await getLatestVersionInfo();
+    } catch (err) {
+        error('Failed to fetch C3FMT releases', err);
+        latest = null;
+    }
+
+    if (!latest) {
         errorAndShow('Failed to fetch latest C3FMT version.');
         return;
     }
 
-    if (semver.gte(installedVersion, latestVersion)) {
+    if (semver.gte(installedVersion, latest.version)) {
+        info('C3FMT is up to date');
         return;
     }
 
     const choice = await vscode.window.showInformationMessage(
-        `A new version of C3FMT is available: ${latestVersion}. Would you like to update?`,
+        `A new version of C3FMT is available: ${latest.version.version}. Would you like to update?`,
         'Update',
         'Later'
     );
 
     if (choice === 'Update') {
-        return installFMT(directory);
+        await installFMT(directory, latest);
     }
 }
 
-async function installFMT(directory: vscode.Uri): Promise<void> {
-    // get current and new version
+/**
+ * Download the latest C3FMT release for this platform and point `c3.format.path` at it.
+ * Returns true if it was installed.
+ */
+async function installFMT(directory: vscode.Uri, release?: ReleaseInfo): Promise<boolean> {
+    try {
+        release ??= await getLatestVersionInfo() ?? undefined;
+    } catch (err) {
+        errorAndShow('Failed to fetch C3FMT releases', err);
+        return false;
+    }
+
+    if (!release) {
+        errorAndShow('Could not fetch latest C3FMT version for installation');
+        return false;
+    }
 
-    // download
-    // extract/compile
+    const platformKey = getPlatformKey();
+    const artifact = release.artifacts[platformKey];
+
+    if (!artifact) {
+        errorAndShow(`No C3FMT binary available for: ${platformKey}`);
+        return false;
+    }
+
+    const installDir = vscode.Uri.joinPath(directory, FMT_INSTALL_FOLDER);
+
+    try {
+        const binaryPath = await downloadAndExtractArtifact('C3FMT', installDir, artifact.url, {
+            executableName: FMT_EXECUTABLE_NAME,
+            sha256: artifact.sha256,
+            checksumsUrl: artifact.checksumsUrl,
+        });
+        await conf.updateFMTPath(binaryPath);
+
+        infoAndShow(`C3FMT ${release.version.version} installed at: ${binaryPath}`);
+        return true;
+    } catch (err) {
+        errorAndShow('Failed to install C3FMT binary', err);
+        return false;
+    }
 }
 
-function getInstalledVersionInfo(binaryPath: string): semver.SemVer | null {
-    const output = cp.execFileSync(binaryPath, [FMT_FLAGS.VERSION]);
-    const versionStr = output.toString('utf8').trim();
-    return semver.parse(versionStr);
+/**
+ * Get the version of an installed C3FMT binary.
+ */
+async function getInstalledVersionInfo(binaryPath: string): Promise<semver.SemVer | null> {
+    try {
+        const { stdout } = await execFile(binaryPath, [FMT_FLAGS.VERSION], { timeout: TOOL_VERSION_TIMEOUT });
+        return semver.coerce(stdout.trim());
+    } catch (err) {
+        error(`Failed to run ${binaryPath}`, err);
+        return null;
+    }
 }
 
-async function getLatestVersionInfo(): Promise<semver.SemVer | null> {
-    return null;
+/**
+ * Fetch the latest stable C3FMT release.
+ */
+async function getLatestVersionInfo(): Promise<ReleaseInfo | null> {
+    const releases = await fetchReleases(C3_FMT_RELEASES_URL);
+    return releases.find(release => release.channel === 'stable') ?? null;
 }
@@ -1,23 +1,97 @@
+import * as fs from 'fs';
+import * as path from 'path';
 import * as vscode from 'vscode';
-import { C3_LOG_NAME } from './constants';
+import { LogLevel, getLogConfig } from './config';
+import { C3_LOG_NAME, LOG_BUFFER_LINES, LOG_FILE_BACKUPS, LOG_FILE_FLUSH_DELAY, LOG_FILE_MAX_SIZE, LOG_FILE_NAME, NOTIFICATION_DEDUP_WINDOW } from './constants';
 
-let outputChannel: vscode.OutputChannel | null = null;
+/** Severity of each level, messages below the configured level are dropped */
+const LEVEL_SEVERITY: Record<LogLevel, number> = {
+    trace: 0,
+    debug: 1,
+    info: 2,
+    warning: 3,
+    error: 4,
+    off: 5,
+};
+
+/** Severity of the channel's own level, which VS Code's "Set Log Level" changes */
+const CHANNEL_SEVERITY: Record<vscode.LogLevel, number> = {
+    [vscode.LogLevel.Trace]: 0,
+    [vscode.LogLevel.Debug]: 1,
+    [vscode.LogLevel.Info]: 2,
+    [vscode.LogLevel.Warning]: 3,
+    [vscode.LogLevel.Error]: 4,
+    [vscode.LogLevel.Off]: 5,
+};
+
+let outputChannel: vscode.LogOutputChannel | null = null;
+
+let logLevel: LogLevel = 'info';
+
+/** Folder of the rotating log files, unset when file logging is off */
+let logDir: string | null = null;
+
+/** Size of the current log file, tracked to avoid a stat per line */
+let logFileSize = 0;
+
+/** Extension's log folder, given by VS Code */
+let logUri: vscode.Uri | null = null;
+
+/** Lines waiting to be appended to the log file */
+let pendingLines: string[] = [];
+
+let flushTimer: NodeJS.Timeout | undefined;
+
+/** The running file write, flushes wait for it so lines stay in order */
+let fileWrite: Promise<void> = Promise.resolve();
+
+/** Recent log lines, kept for support bundles */
+const recentLines: string[] = [];
+
+/** When each notification message was last shown */
+const lastShown = new Map<string, number>();
 
 /**
  * Creates the output channel if it doesn't exist.
+ * The extension context provides the folder of the optional log file.
  */
-export function initializeLogger(): void {
+export function initializeLogger(context?: vscode.ExtensionContext): void {
     if (!outputChannel) {
-        outputChannel = vscode.window.createOutputChannel(C3_LOG_NAME);
+        outputChannel = vscode.window.createOutputChannel(C3_LOG_NAME, { log: true });
+        outputChannel.onDidChangeLogLevel(() => checkChannelLevel());
+        logUri = context?.logUri ?? null;
+        applyLogConfig();
     } else {
         warning('Logger already initialized');
     }
 }
 
-/** 
- * Dispose the output channel.
+/**
+ * Apply `c3.log.level` and `c3.log.file` settings.
  */
-export function disposeLogger(): void {
+export function applyLogConfig(): void {
+    const logConfig = getLogConfig();
+    logLevel = LEVEL_SEVERITY[logConfig.level] === undefined ? 'info' : logConfig.level;
+
+    const dir = logConfig.file && logUri ? logUri.fsPath : null;
+
+    if (dir !== logDir) {
+        logDir = dir;
+        logFileSize = dir ? getFileSize(path.join(dir, LOG_FILE_NAME)) : 0;
+
+        if (dir) {
+            info(`Writing log file to ${path.join(dir, LOG_FILE_NAME)}`);
+        }
+    }
+
+    checkChannelLevel();
+}
+
+/**
+ * Write the remaining lines to the log file and dispose the output channel.
+ */
+export async function disposeLogger(): Promise<void> {
+    await flushLogFile();
     outputChannel?.dispose();
     outputChannel = null;
 }
@@ -30,46 +104,84 @@ export function isLoggerInitialized(): boolean {
 }
 
 /**
- * Log an informational message. Must be initialized first.
+ * Log a message with the given level. Must be initialized first.
+ */
+export function log(level: Exclude<LogLevel, 'off'>, message: string): void {
+    if (LEVEL_SEVERITY[level] < LEVEL_SEVERITY[logLevel]) {
+        return;
+    }
+
+    const line = `${new Date().toISOString()} [${level}] ${message}`;
+
+    switch (level) {
+        case 'trace': outputChannel?.trace(message); break;
+        case 'debug': outputChannel?.debug(message); break;
+        case 'info': outputChannel?.info(message); break;
+        case 'warning': outputChannel?.warn(message); break;
+        case 'error': outputChannel?.error(message); break;
+    }
+
+    recentLines.push(line);
+    if (recentLines.length > LOG_BUFFER_LINES) {
+        recentLines.shift();
+    }
+
+    writeToFile(line);
+}
+
+/**
+ * Log a detailed message for tracing the extension's behaviour.
  */
-export function log(message: string, header: string): void {
-    const timestamp = new Date().toISOString();
+export function trace(message: string): void {
+    log('trace', message);
+}
 
-    outputChannel?.appendLine(`[${header}] : [${timestamp}] : ${message}`);
+/**
+ * Log a debug message.
+ */
+export function debug(message: string): void {
+    log('debug', message);
 }
 
 /**
  * Log a standard info message.
  */
 export function info(message: string): void {
-    log(message, 'INFO');
+    log('info', message);
 }
 
 /**
- * Log an error message and show to user.
+ * Log an info message and show to user.
  */
 export function infoAndShow(message: string): void {
     info(message);
-    vscode.window.showInformationMessage(message);
+    if (shouldNotify(message)) {
+        vscode.window.showInformationMessage(message);
+    }
 }
 
 /**
  * Log a standard warning message.
  */
 export function warning(message: string): void {
-    log(message, 'WARNING');
+    log('warning', message);
 }
 
+/**
+ * Log a warning message and show to user.
+ */
 export function warningAndShow(message: string): void {
     warning(message);
-    vscode.window.showWarningMessage(message);
+    if (shouldNotify(message)) {
+        vscode.window.showWarningMessage(message);
+    }
 }
 
 /**
  * Log a standard error message.
  */
 export function error(message: string, err?: unknown): void {
-    log(`${message} ${err ? `: ${String(err)}` : ''}`, 'ERROR');
+    log('error', `${message}${err ? `: ${String(err)}` : ''}`);
 }
 
 /**
@@ -77,7 +189,9 @@ export function error(message: string, err?: unknown): void {
  */
 export function errorAndShow(message: string, err?: unknown): void {
     error(message, err);
-    vscode.window.showErrorMessage(message);
+    if (shouldNotify(message)) {
+        vscode.window.showErrorMessage(message);
+    }
 }
 
 /**
@@ -86,3 +200,131 @@ export function errorAndShow(message: string, err?: unknown): void {
 export function showOutput(): void {
     outputChannel?.show();
 }
+
+/**
+ * Get the most recent log lines, oldest first.
+ */
+export function getRecentLogLines(): string[] {
+    return [...recentLines];
+}
+
+/**
+ * Get the paths of the existing log files, oldest first.
+ */
+export function getLogFiles(): string[] {
+    if (!logDir) {
+        return [];
+    }
+
+    const dir = logDir;
+
+    return Array.from({ length: LOG_FILE_BACKUPS + 1 }, (_, index) => getLogFilePath(dir, LOG_FILE_BACKUPS - index))
+        .filter(file => fs.existsSync(file));
+}
+
+/**
+ * Append the collected lines to the log file now, resolves once they are written.
+ */
+export function flushLogFile(): Promise<void> {
+    clearTimeout(flushTimer);
+    flushTimer = undefined;
+
+    const data = pendingLines.join('');
+    pendingLines = [];
+
+    if (data) {
+        fileWrite = fileWrite.then(() => appendToFile(data));
+    }
+
+    return fileWrite;
+}
+
+/**
+ * The channel drops lines below its own level, point out when that hides lines `c3.log.level` asks for.
+ */
+function checkChannelLevel(): void {
+    if (outputChannel && LEVEL_SEVERITY[logLevel] < CHANNEL_SEVERITY[outputChannel.logLevel]) {
+        outputChannel.warn(`c3.log.level is ${logLevel} but this channel shows ${vscode.LogLevel[outputChannel.logLevel]} and above, use "Developer: Set Log Level..." to see all lines`);
+    }
+}
+
+/**
+ * The same message is shown at most once per `NOTIFICATION_DEDUP_WINDOW`, it is still logged every time.
+ */
+function shouldNotify(message: string): boolean {
+    const now = Date.now();
+    const shownAt = lastShown.get(message);
+
+    if (shownAt !== undefined && now - shownAt < NOTIFICATION_DEDUP_WINDOW) {
+        return false;
+    }
+
+    lastShown.set(message, now);
+    return true;
+}
+
+/**
+ * Collect a line for the log file, they are written together after `LOG_FILE_FLUSH_DELAY`.
+ */
+function writeToFile(line: string): void {
+    if (!logDir) {
+        return;
+    }
+
+    pendingLines.push(`${line}\n`);
+    flushTimer ??= setTimeout(() => void flushLogFile(), LOG_FILE_FLUSH_DELAY);
+}
+
+async function appendToFile(data: string): Promise<void> {
+    const dir = logDir;
+
+    if (!dir) {
+        return;
+    }
+
+    try {
+        const size = Buffer.byteLength(data);
+
+        if (logFileSize + size > LOG_FILE_MAX_SIZE) {
+            await rotateLogFiles(dir);
+        }
+
+        await fs.promises.mkdir(dir, { recursive: true });
+        await fs.promises.appendFile(getLogFilePath(dir, 0), data);
+        logFileSize += size;
+    } catch (err) {
+        // Logging the failure would recurse, keep it in the channel only
+        logDir = null;
+        outputChannel?.error(`Failed to write log file, file logging disabled: ${String(err)}`);
+    }
+}
+
+/**
+ * Shift `c3.log` to `c3.1.log` and so on, dropping the oldest file.
+ */
+async function rotateLogFiles(dir: string): Promise<void> {
+    await fs.promises.rm(getLogFilePath(dir, LOG_FILE_BACKUPS), { force: true });
+
+    for (let index = LOG_FILE_BACKUPS - 1; index >= 0; index--) {
+        const file = getLogFilePath(dir, index);
+
+        if (fs.existsSync(file)) {
+            await fs.promises.rename(file, getLogFilePath(dir, index + 1));
+        }
+    }
+
+    logFileSize = 0;
+}
+
+function getLogFilePath(dir: string, index: number): string {
+    const { name, ext } = path.parse(LOG_FILE_NAME);
+    return path.join(dir, index === 0 ? LOG_FILE_NAME : `${name}.${index}${ext}`);
+}
+
+function getFileSize(file: string): number {
+    try {
+        return fs.statSync(file).size;
+    } catch {
+        return 0;
+    }
+}
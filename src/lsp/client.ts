@@ -1,162 +1,411 @@
 import * as vscode from 'vscode';
-import { LanguageClient, LanguageClientOptions, Executable, ServerOptions, RevealOutputChannelOn } from 'vscode-languageclient/node';
+import { DocumentSelector, LanguageClient, LanguageClientOptions, RevealOutputChannelOn } from 'vscode-languageclient/node';
 import { getLSPConfig, getC3Config, LSPConfig, C3Config } from '../config';
-import { C3_LANGUAGE_ID, C3_FILE_EXTENSIONS, LSP_CLIENT_NAME, LSP_CLIENT_ID, LSP_FLAGS } from '../constants';
-import { info, error } from '../logger';
-import { updateOrInstallLSP } from './installer';
+import { C3_LANGUAGE_ID, C3_SOURCE_GLOB, LSP_CLIENT_NAME, LSP_CLIENT_ID, LSP_FLAGS } from '../constants';
+import { info, error, warning, showOutput } from '../logger';
+import { checkForLSPUpdates, ensureLSPInstalled, getInstalledVersionInfo } from './installer';
+import { clearLSPStatus, setLSPStatus } from './status';
+import { cancelRestart, createErrorHandler, markStarted, resetCrashes } from './supervisor';
+import { createServerOptions, spawnsServer } from './transport';
+import { closeTrafficLog, closeTrafficLogs, createInstrumentationMiddleware } from './instrumentation';
+import { ServerProfileOptions, getServerProfileOptions } from './options';
+import { findProfileTarget, getBuildProfile } from '../profile';
 
-let client: LanguageClient | null = null;
+/**
+ * A language server started for one workspace folder
+ */
+interface ServerInstance {
+    client: LanguageClient;
+    folder: vscode.WorkspaceFolder | undefined;
+    /** Transport, binary and arguments the server was started with, to tell if a config change needs a restart */
+    command: string[];
+    /** Build profile sent in the initialization options, the server only reads it on start */
+    profile: string;
+}
+
+/** Running servers by workspace folder URI, an empty key is used when no folder is open */
+const servers = new Map<string, ServerInstance>();
+
+/** Output channel shared by all servers */
+let outputChannel: vscode.OutputChannel | null = null;
+
+/** Start and stop run one after another, so a config change during startup can't start a second server */
+let pending: Promise<void> = Promise.resolve();
 
 /**
- * Start the Language Server.
+ * Start a Language Server for every workspace folder, or a single one if no folder is open.
  */
 export async function startLSP(context: vscode.ExtensionContext): Promise<void> {
-    if (client) {
-        info('LSP is already running');
-        return;
+    const folders = getServerFolders();
+
+    // Only prompts when no binary is configured, updates are checked once the server runs
+    if (servers.size === 0 && folders.some(folder => {
+        const lspConfig = getLSPConfig(folder?.uri);
+        return lspConfig.enabled && spawnsServer(lspConfig);
+    })) {
+        try {
+            await ensureLSPInstalled(context);
+        } catch (err) {
+            error('LSP setup failed', err);
+        }
     }
 
-    const lspConfig = getLSPConfig();
-    const c3Config = getC3Config();
+    return enqueue(async () => {
+        for (const folder of folders) {
+            await start(context, folder);
+        }
+    });
+}
 
-    if (!lspConfig.enabled) {
-        info('LSP is disabled in settings');
-        return;
-    }
+/**
+ * Stop all Language Servers.
+ */
+export async function stopLSP(): Promise<void> {
+    return enqueue(async () => {
+        for (const server of [...servers.values()]) {
+            await stop(server.folder);
+        }
 
-    await updateOrInstallLSP(context.globalStorageUri);
+        closeTrafficLogs();
+    });
+}
 
-    const args = buildServerArgs(lspConfig, c3Config);
-    info(`Starting LSP from: ${lspConfig.path}`);
-    info(`LSP arguments: ${args.join(' ')}`);
+/**
+ * Restart the Language Server of a workspace folder, or all of them.
+ */
+export async function restartLSP(context: vscode.ExtensionContext, folder?: vscode.WorkspaceFolder): Promise<void> {
+    const folders = folder ? [folder] : getServerFolders();
+
+    return enqueue(async () => {
+        for (const target of folders) {
+            info(`Restarting LSP${describe(target)}...`);
+            resetCrashes(getKey(target));
+            await stop(target);
+            await start(context, target);
+        }
+    });
+}
 
-    try {
-        await createAndStartClient(lspConfig, args);
-        info('LSP started successfully');
-    } catch (err) {
-        error('Failed to start LSP', err);
-        throw err;
-    }
+/**
+ * Bring the servers in line with the current settings: start or stop them when `c3.lsp.enabled`
+ * changed and restart them when the binary, its arguments or the build profile changed.
+ */
+export async function applyLSPConfig(context: vscode.ExtensionContext): Promise<void> {
+    return enqueue(async () => {
+        for (const folder of getServerFolders()) {
+            const lspConfig = getLSPConfig(folder?.uri);
+            const server = servers.get(getKey(folder));
+
+            if (!lspConfig.enabled) {
+                await stop(folder);
+                setLSPStatus(folder, 'disabled');
+                continue;
+            }
+
+            if (!server) {
+                await start(context, folder);
+                continue;
+            }
+
+            const command = getServerCommand(lspConfig, buildServerArgs(lspConfig, getC3Config(folder?.uri)));
+            const profile = JSON.stringify(await resolveProfileOptions(folder));
+
+            if (command.join('\0') === server.command.join('\0') && profile === server.profile) {
+                continue;
+            }
+
+            info(`LSP settings changed${describe(folder)}, restarting`);
+            await stop(folder);
+            await start(context, folder);
+        }
+    });
 }
 
 /**
- * Stop the Language Server.
+ * Apply `c3.lsp.trace` to the running clients.
  */
-export async function stopLSP(): Promise<void> {
-    if (!client) {
-        info('LSP is not running');
-        return;
+export function applyLSPTrace(): void {
+    for (const { client, folder } of servers.values()) {
+        const trace = getLSPConfig(folder?.uri).trace;
+        client.setTrace(trace);
+        info(`LSP trace set to ${trace}${describe(folder)}`);
     }
+}
 
-    info('Stopping LSP...');
+/**
+ * Start and stop servers when workspace folders are added or removed.
+ */
+export function registerWorkspaceFolderWatcher(context: vscode.ExtensionContext): void {
+    const watcher = vscode.workspace.onDidChangeWorkspaceFolders(event => {
+        const hasFolders = (vscode.workspace.workspaceFolders?.length ?? 0) > 0;
+        const removed = new Set(event.removed.map(getKey));
+
+        // The folderless server is replaced once a folder is opened, and comes back when the last one is closed
+        const stale = [...servers.values()].filter(server => server.folder ? removed.has(getKey(server.folder)) : hasFolders);
+        const added = hasFolders ? event.added : [undefined];
+
+        void enqueue(async () => {
+            for (const server of stale) {
+                await stop(server.folder);
+                clearLSPStatus(server.folder);
+            }
+
+            // Disabled folders have a status but no server
+            event.removed.forEach(clearLSPStatus);
+
+            for (const folder of added) {
+                await start(context, folder);
+            }
+        });
+    });
+
+    context.subscriptions.push(watcher);
+}
 
-    try {
-        await client.stop();
-        await client.dispose();
-        client = null;
-        info('LSP stopped');
-    } catch (err) {
-        error('Error stopping LSP', err);
+/**
+ * Show the language server output, or the extension log if no server was started.
+ */
+export function showLSPLogs(): void {
+    if (outputChannel) {
+        outputChannel.show();
+    } else {
+        showOutput();
     }
 }
 
 /**
- * Restart the Language Server.
+ * Check if the Language Server of a folder is currently running, any server if no folder is given.
  */
-export async function restartLSP(context: vscode.ExtensionContext): Promise<void> {
+export function isLSPRunning(folder?: vscode.WorkspaceFolder): boolean {
+    const clients = folder ? [getClient(folder)] : [...servers.values()].map(server => server.client);
+    return clients.some(client => client?.isRunning());
+}
 
-    info('Restarting LSP...');
-    await stopLSP();
-    await startLSP(context);
+/**
+ * Get the language client of a workspace folder (for advanced usage).
+ */
+export function getClient(folder?: vscode.WorkspaceFolder): LanguageClient | null {
+    return servers.get(getKey(folder))?.client ?? null;
 }
 
 /**
- * Check if the Language Server is currently running.
+ * Get the workspace folder of the active editor, commands act on its server.
  */
-export function isLSPRunning(): boolean {
-    return client !== null && client.isRunning();
+export function getActiveFolder(): vscode.WorkspaceFolder | undefined {
+    const uri = vscode.window.activeTextEditor?.document.uri;
+    return uri ? vscode.workspace.getWorkspaceFolder(uri) : undefined;
+}
+
+function enqueue(operation: () => Promise<void>): Promise<void> {
+    const result = pending.then(operation);
+    pending = result.catch(() => { });
+    return result;
 }
 
 /**
- * Get the language client instance (for advanced usage).
+ * Folders that get their own server, `undefined` stands for a window without folders.
  */
-export function getClient(): LanguageClient | null {
-    return client;
+function getServerFolders(): (vscode.WorkspaceFolder | undefined)[] {
+    const folders = vscode.workspace.workspaceFolders;
+    return folders && folders.length > 0 ? [...folders] : [undefined];
+}
+
+function getKey(folder: vscode.WorkspaceFolder | undefined): string {
+    return folder?.uri.toString() ?? '';
+}
+
+function describe(folder: vscode.WorkspaceFolder | undefined): string {
+    return folder ? ` for ${folder.name}` : '';
+}
+
+async function resolveProfileOptions(folder: vscode.WorkspaceFolder | undefined): Promise<ServerProfileOptions> {
+    return getServerProfileOptions(getBuildProfile(folder), await findProfileTarget(folder));
 }
 
 /**
- * Create and start the language client.
+ * Start the server of a folder. Failures are logged and shown in the status bar instead of thrown,
+ * so one broken folder does not keep the others from getting a server.
  */
-async function createAndStartClient(lspConfig: LSPConfig, args: string[]): Promise<void> {
-    const serverExecutable: Executable = {
-        command: lspConfig.path!,
-        args: args
-    };
+async function start(context: vscode.ExtensionContext, folder: vscode.WorkspaceFolder | undefined): Promise<void> {
+    const key = getKey(folder);
 
-    const serverOptions: ServerOptions = {
-        run: serverExecutable,
-        debug: serverExecutable
+    if (servers.has(key)) {
+        info(`LSP is already running${describe(folder)}`);
+        return;
+    }
+
+    // Setup may have changed the path
+    const lspConfig = getLSPConfig(folder?.uri);
+    const c3Config = getC3Config(folder?.uri);
+
+    if (!lspConfig.enabled) {
+        info(`LSP is disabled in settings${describe(folder)}`);
+        setLSPStatus(folder, 'disabled');
+        return;
+    }
+
+    if (!lspConfig.path && spawnsServer(lspConfig)) {
+        warning(`No LSP binary configured, not starting LSP${describe(folder)}`);
+        setLSPStatus(folder, 'stopped', { reason: 'No binary configured' });
+        return;
+    }
+
+    const args = buildServerArgs(lspConfig, c3Config);
+    const profile = await resolveProfileOptions(folder);
+
+    if (spawnsServer(lspConfig)) {
+        info(`Starting LSP${describe(folder)} from: ${lspConfig.path}`);
+        info(`LSP arguments: ${args.join(' ')}`);
+    } else {
+        info(`Attaching to LSP${describe(folder)} over ${lspConfig.transport}: ${lspConfig.address ?? ''}`);
+    }
+
+    const details = {
+        langVersion: lspConfig.langVersion,
+        version: lspConfig.path && spawnsServer(lspConfig) ? (await getInstalledVersionInfo(lspConfig.path))?.version : undefined,
     };
+    setLSPStatus(folder, 'starting', details);
+
+    try {
+        const started = await createAndStartClient(context, folder, lspConfig, args, profile);
+        markStarted(key);
+        info(`LSP started successfully${describe(folder)}`);
+        setLSPStatus(folder, 'running', { ...details, version: started.initializeResult?.serverInfo?.version ?? details.version });
+    } catch (err) {
+        error(`Failed to start LSP${describe(folder)}`, err);
+        // Other folders still get their server, so the failure only shows in the status bar
+        setLSPStatus(folder, 'crashed', { ...details, reason: err instanceof Error ? err.message : String(err) });
+        return;
+    }
+
+    void checkForLSPUpdates(context);
+}
+
+async function stop(folder: vscode.WorkspaceFolder | undefined): Promise<void> {
+    const key = getKey(folder);
+    const server = servers.get(key);
+
+    cancelRestart(key);
+
+    if (!server) {
+        info(`LSP is not running${describe(folder)}`);
+        return;
+    }
+
+    info(`Stopping LSP${describe(folder)}...`);
+
+    try {
+        await server.client.stop();
+        await server.client.dispose();
+        info(`LSP stopped${describe(folder)}`);
+    } catch (err) {
+        error(`Error stopping LSP${describe(folder)}`, err);
+    }
+
+    // A crashed client fails to stop, it is dropped either way
+    servers.delete(key);
+    closeTrafficLog(key);
+    setLSPStatus(folder, 'stopped');
+}
+
+/**
+ * Create and start the language client of a workspace folder.
+ */
+async function createAndStartClient(
+    context: vscode.ExtensionContext,
+    folder: vscode.WorkspaceFolder | undefined,
+    lspConfig: LSPConfig,
+    args: string[],
+    profile: ServerProfileOptions
+): Promise<LanguageClient> {
+    const key = getKey(folder);
+    const name = `${LSP_CLIENT_NAME}${folder && (vscode.workspace.workspaceFolders?.length ?? 0) > 1 ? ` (${folder.name})` : ''}`;
+    const serverOptions = createServerOptions(key, lspConfig, args, folder?.uri.fsPath);
+
+    // Restarts go through stop and start, so the server gets fresh arguments
+    const errorHandler = createErrorHandler(
+        key,
+        name,
+        () => enqueue(async () => {
+            await stop(folder);
+            await start(context, folder);
+        }),
+        (reason, willRestart) => setLSPStatus(folder, 'crashed', {
+            langVersion: lspConfig.langVersion,
+            reason: willRestart ? `${reason}, restarting` : reason,
+        })
+    );
+
+    if (!outputChannel) {
+        outputChannel = vscode.window.createOutputChannel(LSP_CLIENT_NAME);
+        context.subscriptions.push(outputChannel);
+    }
+
+    // Each folder's server only sees its own files, untitled files go to the first folder's server.
+    // The client passes the pattern to VS Code as is, a RelativePattern needs no escaping of the folder path
+    // but the protocol types only allow strings.
+    const documentSelector: DocumentSelector = folder
+        ? [{ scheme: 'file', language: C3_LANGUAGE_ID, pattern: new vscode.RelativePattern(folder, '**/*') as unknown as string }]
+        : [{ scheme: 'file', language: C3_LANGUAGE_ID }];
+
+    if (!folder || folder.index === 0) {
+        documentSelector.push({ scheme: 'untitled', language: C3_LANGUAGE_ID });
+    }
 
     const clientOptions: LanguageClientOptions = {
-        documentSelector: [
-            { scheme: 'file', language: C3_LANGUAGE_ID },
-            { scheme: 'untitled', language: C3_LANGUAGE_ID },
-        ],
+        documentSelector,
+
+        workspaceFolder: folder,
+
+        outputChannel,
 
         synchronize: {
             fileEvents: vscode.workspace.createFileSystemWatcher(
-                `**/*.{${C3_FILE_EXTENSIONS.join(',')}}`
+                folder ? new vscode.RelativePattern(folder, C3_SOURCE_GLOB) : C3_SOURCE_GLOB
             ),
             configurationSection: ['c3', 'c3.lsp'],
         },
 
         revealOutputChannelOn: RevealOutputChannelOn.Never,
 
-        middleware: {
-            provideDefinition: async (document, position, token, next) => {
-                info(`Go to definition requested at ${document.uri.fsPath}:${position.line + 1}:${position.character + 1}`);
-
-                const result = await next(document, position, token);
-
-                if (!result) {
-                    error('No definition found');
-                } else {
-                    info(`Definition found: ${JSON.stringify(result)}`);
-                }
-
-                return result;
-            },
-            provideDeclaration: async (document, position, token, next) => {
-                info(`Go to declaration requested at ${document.uri.fsPath}:${position.line + 1}:${position.character + 1}`);
-
-                const result = await next(document, position, token);
-
-                if (!result) {
-                    error('No definition found');
-                } else {
-                    info(`Definition found: ${JSON.stringify(result)}`);
-                }
-
-                return result;
-            },
-            provideHover: async (document, position, token, next) => {
-                info(`Hover requested at ${document.uri.fsPath}:${position.line + 1}:${position.character + 1}`);
-                return await next(document, position, token);
-            },
-        },
+        // Platform and features decide which `$if` branches and `$feature` checks are analyzed
+        initializationOptions: profile,
+
+        errorHandler,
+
+        middleware: createInstrumentationMiddleware(),
     };
 
-    client = new LanguageClient(
+    const client = new LanguageClient(
         LSP_CLIENT_ID,
-        LSP_CLIENT_NAME,
+        name,
         serverOptions,
         clientOptions
     );
 
     client.setTrace(lspConfig.trace);
 
-    await client.start();
+    try {
+        await client.start();
+    } catch (err) {
+        await client.dispose().catch(() => { });
+        throw err;
+    }
+
+    // Only a started client counts as running, a failed one must not be compared or stopped later
+    servers.set(key, { client, folder, command: getServerCommand(lspConfig, args), profile: JSON.stringify(profile) });
+    return client;
+}
+
+/**
+ * Describe how a server is reached, attached servers ignore the binary and its arguments.
+ */
+function getServerCommand(lspConfig: LSPConfig, args: string[]): string[] {
+    const connection = spawnsServer(lspConfig)
+        ? [lspConfig.path ?? '', ...args]
+        : [lspConfig.address ?? ''];
+
+    return [lspConfig.transport, lspConfig.trafficLog, ...connection];
 }
 
 /**
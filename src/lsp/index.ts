@@ -4,3 +4,5 @@
 
 export * from './client';
 export * from './installer';
+export { registerLSPStatus, showLSPMenu } from './status';
+export { showLSPPerformance } from './performance';
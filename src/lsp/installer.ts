@@ -1,73 +1,111 @@
-import axios from 'axios';
 import * as cp from 'child_process';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as util from 'util';
 import * as semver from 'semver';
 import * as vscode from 'vscode';
 import * as conf from '../config';
-import { platform, machine } from 'os';
 import { downloadAndExtractArtifact } from '../utils';
-import { C3_LSP_RELEASES_URL, LSP_FLAGS, LSP_INSTALL_FOLDER } from '../constants';
+import { ReleaseInfo, fetchReleases, getPlatformKey } from '../release';
+import { C3_LSP_RELEASES_URL, RELEASES_CACHE_TTL, LSP_EXECUTABLE_NAME, LSP_FLAGS, LSP_INSTALL_FOLDER, LSP_INSTALLS_STATE_KEY, TOOL_VERSION_TIMEOUT } from '../constants';
 import * as log from '../logger';
+import { showSetupWalkthrough } from '../walkthrough';
 
-/** 
- * Map of platform keys (e.g., "x86_64-linux") to download URLs 
+/**
+ * An LSP binary, installed by the extension or configured by the user
  */
-interface ArtifactMap {
-    [platformKey: string]: {
-        url: string;
-    };
+interface LSPInstall {
+    /** Unknown for binaries that could not be run */
+    version: string | undefined;
+    path: string;
 }
 
 /**
- * Raw release data from the API (version is string before parsing)
+ * The active install and the one it replaced, kept for rollback
  */
-interface RawReleaseInfo {
-    version: string;
-    artifacts: ArtifactMap;
+interface LSPInstalls {
+    current?: LSPInstall;
+    previous?: LSPInstall;
 }
 
+const execFile = util.promisify(cp.execFile);
+
+/** Set once the background update check ran, it is not repeated when the server restarts */
+let updateCheckDone = false;
+
 /**
- * Response structure from releases.json endpoint
+ * Make sure an LSP binary is configured before the client starts. Without a binary the getting started
+ * walkthrough guides the setup, a broken one prompts for reinstall. Neither is awaited, so activation does not
+ * wait for the user, a binary set up later restarts the server through the config watcher.
+ * Updates are checked later by `checkForLSPUpdates`.
  */
-interface ReleasesResponse {
-    releases: RawReleaseInfo[];
+export async function ensureLSPInstalled(context: vscode.ExtensionContext): Promise<void> {
+    const config = conf.getLSPConfig();
+
+    if (!config.path) {
+        showSetupWalkthrough(context, 'No LSP path configured').catch(err => log.error('Failed to open the getting started walkthrough', err));
+        return;
+    }
+
+    if (!await getInstalledVersionInfo(config.path)) {
+        log.error('Could not determine current LSP version, reinstall prompting');
+        promptLSPSetup(context).catch(err => log.error('LSP setup failed', err));
+    }
 }
 
-/** 
- * A release version with download artifacts for each platform 
+/**
+ * Check for updates in the background once the server is running. Runs once per session unless forced
+ * and never throws. A new binary changes `c3.lsp.path`, which restarts the server through the config watcher.
  */
-interface ReleaseInfo {
-    version: semver.SemVer;
-    artifacts: ArtifactMap;
+export async function checkForLSPUpdates(context: vscode.ExtensionContext, force = false): Promise<void> {
+    if (updateCheckDone && !force) {
+        return;
+    }
+
+    updateCheckDone = true;
+
+    try {
+        await updateLSP(context);
+    } catch (err) {
+        log.error('LSP update check failed', err);
+    }
 }
 
 /**
- * Check if a newer version is available or is it installed. Prompt user to update or setup if so.
+ * Check if a newer version is available and prompt user to update if so.
+ * With `c3.lsp.pinnedVersion` set, the pinned version is installed instead and updates are not offered.
+ * Returns true if a new binary was installed.
  */
-export async function updateOrInstallLSP(directory: vscode.Uri): Promise<void> {
+async function updateLSP(context: vscode.ExtensionContext): Promise<boolean> {
     const config = conf.getLSPConfig();
 
-    if (!config.path) {
-        log.warning('No LSP path configured, prompting setup');
-        return promptLSPSetup(directory);
+    if (conf.getC3Config().offline) {
+        log.info('Offline mode, skipping LSP update check');
+        return false;
+    }
+
+    const pinnedVersion = getPinnedVersion();
+
+    if (pinnedVersion) {
+        return ensurePinnedVersion(context, pinnedVersion, config.path);
     }
 
-    const current = getInstalledVersionInfo(config.path);
+    const current = config.path ? await getInstalledVersionInfo(config.path) : null;
     if (!current) {
-        log.error('Could not determine current LSP version, reinstall prompting');
-        return promptLSPSetup(directory);
+        return false;
     }
 
     log.info(`Current LSP version: ${current.version}`);
 
-    const latest = await getLatestVersionInfo();
+    const latest = await getLatestVersionInfo(context, RELEASES_CACHE_TTL);
     if (!latest) {
         log.error('Could not fetch latest LSP version');
-        return;
+        return false;
     }
 
     if (semver.gte(current, latest.version)) {
         log.info('LSP is up to date');
-        return;
+        return false;
     }
 
     log.warning(`Update available: ${latest.version}`);
@@ -80,14 +118,161 @@ export async function updateOrInstallLSP(directory: vscode.Uri): Promise<void> {
     );
 
     if (choice === 'Update') {
-        await downloadAndInstallVersion(directory, latest.artifacts);
+        return downloadAndInstallVersion(context, latest);
     }
+
+    return false;
+}
+
+/**
+ * Let the user pick any LSP release and install it. Returns true if a version was installed.
+ */
+export async function installLSPVersion(context: vscode.ExtensionContext): Promise<boolean> {
+    let releases: ReleaseInfo[];
+
+    try {
+        releases = await fetchReleases(C3_LSP_RELEASES_URL, { cache: context.globalState });
+    } catch (err) {
+        log.errorAndShow('Failed to fetch C3 LSP releases', err);
+        return false;
+    }
+
+    const config = conf.getLSPConfig();
+    const pinnedVersion = getPinnedVersion();
+    const installed = config.path ? await getInstalledVersionInfo(config.path) : null;
+    const platformKey = getPlatformKey();
+
+    const picked = await vscode.window.showQuickPick(
+        releases.map(release => ({
+            label: release.name,
+            description: [
+                release.channel !== 'stable' ? release.channel : '',
+                release.date ? new Date(release.date).toLocaleDateString() : '',
+                installed && semver.eq(installed, release.version) ? 'installed' : '',
+                isPinned(release, pinnedVersion) ? 'pinned' : '',
+            ].filter(Boolean).join(' · '),
+            detail: release.artifacts[platformKey]
+                ? `Available for ${Object.keys(release.artifacts).join(', ')}`
+                : `Not available for ${platformKey}`,
+            release,
+        })),
+        { title: 'Install C3 Language Server version', matchOnDescription: true, matchOnDetail: true }
+    );
+
+    if (!picked || !await downloadAndInstallVersion(context, picked.release)) {
+        return false;
+    }
+
+    // A different pin would replace the chosen version on the next start
+    if (pinnedVersion) {
+        if (!isPinned(picked.release, pinnedVersion)) {
+            await conf.updateLSPPinnedVersion(picked.release.version.version);
+            log.infoAndShow(`C3 LSP pinned to ${picked.release.version.version}`);
+        }
+        return true;
+    }
+
+    const choice = await vscode.window.showInformationMessage(
+        `Pin C3 LSP to ${picked.release.version.version}? Update prompts are turned off while pinned.`,
+        'Pin',
+        'No'
+    );
+
+    if (choice === 'Pin') {
+        await conf.updateLSPPinnedVersion(picked.release.version.version);
+    }
+
+    return true;
+}
+
+/**
+ * Install the pinned version unless the configured binary already reports it.
+ */
+async function ensurePinnedVersion(context: vscode.ExtensionContext, pinnedVersion: string, binaryPath: string | undefined): Promise<boolean> {
+    const current = binaryPath ? await getInstalledVersionInfo(binaryPath) : null;
+    const pinned = semver.coerce(pinnedVersion);
+
+    if (current && pinned && semver.eq(current, pinned)) {
+        log.info(`LSP is pinned to ${pinnedVersion}`);
+        return false;
+    }
+
+    log.warning(`LSP version ${current?.version ?? 'unknown'} does not match pinned version ${pinnedVersion}`);
+
+    const release = await findPinnedRelease(context, pinnedVersion);
+
+    if (!release) {
+        log.errorAndShow(`Pinned C3 LSP version ${pinnedVersion} was not found in the releases`);
+        return false;
+    }
+
+    return downloadAndInstallVersion(context, release);
+}
+
+async function findPinnedRelease(context: vscode.ExtensionContext, pinnedVersion: string): Promise<ReleaseInfo | undefined> {
+    const releases = await fetchReleases(C3_LSP_RELEASES_URL, { cache: context.globalState });
+    return releases.find(release => isPinned(release, pinnedVersion));
+}
+
+/**
+ * The configured `c3.lsp.pinnedVersion`, a value that is not a version (e.g. `latest`) is reported and ignored.
+ */
+function getPinnedVersion(): string | undefined {
+    const pinnedVersion = conf.getLSPConfig().pinnedVersion;
+
+    if (pinnedVersion && !semver.valid(semver.coerce(pinnedVersion))) {
+        log.warningAndShow(`Ignoring c3.lsp.pinnedVersion "${pinnedVersion}", it is not a version like 0.4.0`);
+        return undefined;
+    }
+
+    return pinnedVersion;
+}
+
+function isPinned(release: ReleaseInfo, pinnedVersion: string | undefined): boolean {
+    if (!pinnedVersion) {
+        return false;
+    }
+
+    const pinned = semver.coerce(pinnedVersion);
+    return release.name === pinnedVersion || (pinned !== null && semver.eq(release.version, pinned));
+}
+
+/**
+ * Switch back to the LSP binary that was active before the last install.
+ * Returns true if the configured path changed.
+ */
+export async function rollbackLSP(context: vscode.ExtensionContext): Promise<boolean> {
+    const installs = getInstalls(context);
+    const previous = installs.previous;
+
+    if (!previous || !fs.existsSync(previous.path)) {
+        log.infoAndShow('No previous C3 LSP version to roll back to');
+        return false;
+    }
+
+    const current = installs.current ?? await getConfiguredInstall();
+    await setInstalls(context, { current: previous, previous: current });
+    await conf.updateLSPPath(previous.path);
+
+    // Otherwise the pinned version is reinstalled on the next start, without a known version the pin is removed
+    if (conf.getLSPConfig().pinnedVersion) {
+        await conf.updateLSPPinnedVersion(previous.version);
+
+        const pinnedVersion = conf.getLSPConfig().pinnedVersion;
+
+        if (pinnedVersion !== previous.version) {
+            log.warningAndShow(`c3.lsp.pinnedVersion is still ${pinnedVersion}, remove it or the rolled back version is replaced on the next start`);
+        }
+    }
+
+    log.infoAndShow(`Rolled back C3 LSP to ${previous.version ?? previous.path}`);
+    return true;
 }
 
 /**
  * Setup the LSP if it does not exist.
  */
-async function promptLSPSetup(directory: vscode.Uri): Promise<void> {
+async function promptLSPSetup(context: vscode.ExtensionContext): Promise<void> {
     log.info('Prompting user to set up C3 LSP');
     const choice = await vscode.window.showInformationMessage(
         'C3 Language Server provides autocomplete, log.error checking, and more. Set it up now?',
@@ -100,7 +285,7 @@ async function promptLSPSetup(directory: vscode.Uri): Promise<void> {
     switch (choice) {
         case 'Download And install':
             log.info('User chose to download LSP');
-            await installLSP(directory);
+            await installLSP(context);
             break;
 
         case 'Browse...':
@@ -117,20 +302,34 @@ async function promptLSPSetup(directory: vscode.Uri): Promise<void> {
     }
 }
 
-async function installLSP(directory: vscode.Uri): Promise<void> {
-    const latest = await getLatestVersionInfo();
-    if (!latest) {
-        log.error('Could not fetch latest LSP version for installation');
+/**
+ * Install the pinned version if set, otherwise the latest one.
+ */
+export async function installLSP(context: vscode.ExtensionContext): Promise<void> {
+    const pinnedVersion = getPinnedVersion();
+    let release: ReleaseInfo | null | undefined;
+
+    try {
+        release = pinnedVersion
+            ? await findPinnedRelease(context, pinnedVersion)
+            : await getLatestVersionInfo(context);
+    } catch (err) {
+        log.errorAndShow('Failed to fetch C3 LSP releases', err);
+        return;
+    }
+
+    if (!release) {
+        log.errorAndShow(`Could not find C3 LSP ${pinnedVersion ?? 'release'} for installation`);
         return;
     }
 
-    await downloadAndInstallVersion(directory, latest.artifacts);
+    await downloadAndInstallVersion(context, release);
 }
 
 /**
  * Show a file picker for the user to select their LSP binary.
  */
-async function promptForBinaryPath(): Promise<void> {
+export async function promptForBinaryPath(): Promise<void> {
     log.info('Prompting user to select LSP binary');
     const selected = await vscode.window.showOpenDialog({
         canSelectFiles: true,
@@ -148,67 +347,143 @@ async function promptForBinaryPath(): Promise<void> {
 }
 
 /**
- * Fetch the latest version.
+ * Fetch the latest version, from the cached manifest if it is younger than `maxAge` milliseconds.
  */
-async function getLatestVersionInfo(): Promise<ReleaseInfo | null> {
+async function getLatestVersionInfo(context: vscode.ExtensionContext, maxAge = 0): Promise<ReleaseInfo | null> {
     log.info('Fetching C3 LSP releases...');
-    const response = await axios.get<ReleasesResponse>(C3_LSP_RELEASES_URL);
-    const releases = response.data.releases;
+    const releases = await fetchReleases(C3_LSP_RELEASES_URL, { cache: context.globalState, maxAge });
 
-    if (!releases || !Array.isArray(releases) || releases.length === 0) {
+    if (releases.length === 0) {
         log.error('No releases found in response');
         return null;
     }
 
-    const latest = releases.sort((a, b) => semver.rcompare(a.version, b.version)).at(0)!;
-
-    const parsed = semver.parse(latest.version);
-
-    if (!parsed) {
-        log.error(`Invalid version format: ${latest.version}`);
-        return null;
-    }
+    const latest = releases[0];
 
-    log.info(`Latest version: ${parsed.version}`);
-    return { version: parsed, artifacts: latest.artifacts };
+    log.info(`Latest version: ${latest.version.version}`);
+    return latest;
 }
 
 /**
  * Get the version of an installed LSP binary.
  */
-function getInstalledVersionInfo(binaryPath: string): semver.SemVer | null {
-    const output = cp.execFileSync(binaryPath, [LSP_FLAGS.VERSION]);
-    const versionStr = output.toString('utf8').trim();
-    return semver.parse(versionStr);
+export async function getInstalledVersionInfo(binaryPath: string): Promise<semver.SemVer | null> {
+    if (!fs.existsSync(binaryPath)) {
+        log.error(`LSP binary not found: ${binaryPath}`);
+        return null;
+    }
+
+    try {
+        const { stdout } = await execFile(binaryPath, [LSP_FLAGS.VERSION], { timeout: TOOL_VERSION_TIMEOUT });
+        return semver.parse(stdout.trim());
+    } catch (err) {
+        log.error(`Failed to run ${binaryPath}`, err);
+        return null;
+    }
 }
 
 /**
- * Download and install the LSP binary for the current platform.
+ * Download and install an LSP release for the current platform into its own folder.
+ * The install it replaces is remembered for rollback, older ones are deleted.
  */
-async function downloadAndInstallVersion(directory: vscode.Uri, artifacts: ArtifactMap): Promise<void> {
-    const platformKey = `${machine()}-${platform()}`;
+async function downloadAndInstallVersion(context: vscode.ExtensionContext, release: ReleaseInfo): Promise<boolean> {
+    const platformKey = getPlatformKey();
 
     log.info(`Platform: ${platformKey}`);
 
-    const artifact = artifacts[platformKey];
+    const artifact = release.artifacts[platformKey];
 
     if (!artifact) {
         const msg = `No C3 LSP binary available for: ${platformKey}`;
         log.errorAndShow(msg);
-        return;
+        return false;
     }
 
-    const installDir = vscode.Uri.joinPath(
-        directory,
-        LSP_INSTALL_FOLDER
-    );
+    // The folder of a version that is already installed may hold the running server, which Windows does not
+    // let us rename. A reinstall goes into a folder of its own and `c3.lsp.path` switches to it.
+    const versionDir = vscode.Uri.joinPath(context.globalStorageUri, LSP_INSTALL_FOLDER, release.version.version);
+    const installDir = fs.existsSync(versionDir.fsPath)
+        ? vscode.Uri.joinPath(context.globalStorageUri, LSP_INSTALL_FOLDER, `${release.version.version}-${Date.now()}`)
+        : versionDir;
+
+    let binaryPath: string;
 
     try {
-        const binaryPath = await downloadAndExtractArtifact('C3LSP', installDir, artifact.url);
-        await conf.updateLSPPath(binaryPath);
+        binaryPath = await downloadAndExtractArtifact('C3LSP', installDir, artifact.url, {
+            executableName: LSP_EXECUTABLE_NAME,
+            sha256: artifact.sha256,
+            checksumsUrl: artifact.checksumsUrl,
+        });
+    } catch (err) {
+        log.errorAndShow('Failed to install C3 LSP binary', err);
+        return false;
+    }
+
+    const installs = getInstalls(context);
+    const replaced = installs.current ?? await getConfiguredInstall();
+    const current: LSPInstall = { version: release.version.version, path: binaryPath };
+
+    // Reinstalling the same version keeps the previous one, the replaced copy is only deleted by the next
+    // install since the server may still run from it
+    const previous = replaced && replaced.version !== current.version ? replaced : installs.previous;
+
+    await setInstalls(context, { current, previous });
+    await conf.updateLSPPath(binaryPath);
+    await removeUnusedInstalls(context, [current, previous, replaced]);
+
+    log.infoAndShow(`LSP ${release.version.version} installed at: ${binaryPath}`);
+    return true;
+}
+
+function getInstalls(context: vscode.ExtensionContext): LSPInstalls {
+    return context.globalState.get<LSPInstalls>(LSP_INSTALLS_STATE_KEY, {});
+}
+
+async function setInstalls(context: vscode.ExtensionContext, installs: LSPInstalls): Promise<void> {
+    await context.globalState.update(LSP_INSTALLS_STATE_KEY, installs);
+}
 
-        log.infoAndShow(`LSP installed at: ${binaryPath}`);
+/**
+ * The binary set in `c3.lsp.path`, for paths set before installs were tracked or chosen by the user.
+ */
+async function getConfiguredInstall(): Promise<LSPInstall | undefined> {
+    const configured = conf.getLSPConfig().path;
+
+    if (!configured || !fs.existsSync(configured)) {
+        return undefined;
+    }
+
+    return { version: (await getInstalledVersionInfo(configured))?.version, path: configured };
+}
+
+/**
+ * Delete version folders in the install folder that are not used by the given installs.
+ */
+async function removeUnusedInstalls(context: vscode.ExtensionContext, keep: (LSPInstall | undefined)[]): Promise<void> {
+    const root = vscode.Uri.joinPath(context.globalStorageUri, LSP_INSTALL_FOLDER).fsPath;
+    const kept = keep
+        .filter((install): install is LSPInstall => install !== undefined)
+        .map(install => path.resolve(install.path));
+
+    let entries: fs.Dirent[];
+    try {
+        entries = await fs.promises.readdir(root, { withFileTypes: true });
     } catch {
-        log.errorAndShow('Failed to install C3 LSP binary');
+        return;
+    }
+
+    for (const entry of entries) {
+        const entryPath = path.join(root, entry.name);
+
+        if (!entry.isDirectory() || kept.some(p => p.startsWith(entryPath + path.sep))) {
+            continue;
+        }
+
+        try {
+            await fs.promises.rm(entryPath, { recursive: true, force: true });
+            log.info(`Removed old LSP install: ${entryPath}`);
+        } catch (err) {
+            log.error(`Failed to remove old LSP install: ${entryPath}`, err);
+        }
     }
 }
@@ -0,0 +1,256 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { Middleware } from 'vscode-languageclient/node';
+import { LSP_LATENCY_SAMPLES } from '../constants';
+import { error, info } from '../logger';
+
+/**
+ * Timings collected for one LSP method
+ */
+export interface MethodStats {
+    method: string;
+    kind: 'request' | 'notification';
+    count: number;
+    errors: number;
+    /** Most recent durations in milliseconds, at most `LSP_LATENCY_SAMPLES` */
+    durations: number[];
+}
+
+/**
+ * Summary of a method's latencies in milliseconds
+ */
+export interface MethodSummary {
+    method: string;
+    kind: 'request' | 'notification';
+    count: number;
+    errors: number;
+    p50: number;
+    p95: number;
+    max: number;
+}
+
+const stats = new Map<string, MethodStats>();
+
+/**
+ * An open traffic log file and the servers writing to it
+ */
+interface TrafficLog {
+    stream: fs.WriteStream;
+    servers: Set<string>;
+}
+
+/** Open traffic log files by path, shared by the servers writing to them */
+const trafficLogs = new Map<string, TrafficLog>();
+
+/**
+ * Middleware that times every request and notification sent to the server.
+ */
+export function createInstrumentationMiddleware(): Middleware {
+    return {
+        sendRequest: async (type, param, token, next) => {
+            const method = typeof type === 'string' ? type : type.method;
+            const start = performance.now();
+
+            try {
+                const result = await next(type, param, token);
+                record(method, 'request', performance.now() - start, false);
+                return result;
+            } catch (err) {
+                record(method, 'request', performance.now() - start, true);
+                throw err;
+            }
+        },
+
+        sendNotification: async (type, next, params) => {
+            const method = typeof type === 'string' ? type : type.method;
+            const start = performance.now();
+
+            try {
+                await next(type, params);
+                record(method, 'notification', performance.now() - start, false);
+            } catch (err) {
+                record(method, 'notification', performance.now() - start, true);
+                throw err;
+            }
+        },
+    };
+}
+
+/**
+ * Get per-method latency percentiles, slowest p95 first.
+ */
+export function getMethodSummaries(): MethodSummary[] {
+    return [...stats.values()]
+        .map(entry => {
+            const sorted = [...entry.durations].sort((a, b) => a - b);
+
+            return {
+                method: entry.method,
+                kind: entry.kind,
+                count: entry.count,
+                errors: entry.errors,
+                p50: percentile(sorted, 50),
+                p95: percentile(sorted, 95),
+                max: sorted[sorted.length - 1] ?? 0,
+            };
+        })
+        .sort((a, b) => b.p95 - a.p95);
+}
+
+/**
+ * Forget all collected timings.
+ */
+export function resetStats(): void {
+    stats.clear();
+}
+
+/**
+ * Append every JSON-RPC message going through the streams to `logPath`, one JSON object per line.
+ * Messages are taken from the raw LSP framing, so server notifications and responses are included.
+ */
+export function recordTraffic(logPath: string, server: string, input: NodeJS.ReadableStream, output: NodeJS.WritableStream): void {
+    const log = getTrafficLog(logPath, server);
+
+    if (!log) {
+        return;
+    }
+
+    // Messages still arriving after the server stopped are dropped with the closed file
+    const writeEntry = (direction: 'send' | 'receive', message: unknown) => {
+        if (log.writableEnded) {
+            return;
+        }
+
+        log.write(JSON.stringify({ time: new Date().toISOString(), server, direction, message }) + '\n');
+    };
+
+    input.on('data', createMessageParser(message => writeEntry('receive', message)));
+
+    // Tap writes instead of piping, the client owns the stream
+    const parseSent = createMessageParser(message => writeEntry('send', message));
+    const write = output.write.bind(output) as (...args: unknown[]) => boolean;
+    output.write = ((chunk: unknown, ...rest: unknown[]) => {
+        if (typeof chunk === 'string' || chunk instanceof Uint8Array) {
+            parseSent(chunk);
+        }
+        return write(chunk, ...rest);
+    }) as typeof output.write;
+}
+
+/**
+ * Stop recording a server's traffic, files no other server writes to are closed.
+ */
+export function closeTrafficLog(server: string): void {
+    for (const [logPath, log] of trafficLogs) {
+        log.servers.delete(server);
+
+        if (log.servers.size === 0) {
+            log.stream.end();
+            trafficLogs.delete(logPath);
+        }
+    }
+}
+
+/**
+ * Close all traffic log files.
+ */
+export function closeTrafficLogs(): void {
+    for (const log of trafficLogs.values()) {
+        log.stream.end();
+    }
+
+    trafficLogs.clear();
+}
+
+function record(method: string, kind: 'request' | 'notification', duration: number, failed: boolean): void {
+    let entry = stats.get(method);
+
+    if (!entry) {
+        entry = { method, kind, count: 0, errors: 0, durations: [] };
+        stats.set(method, entry);
+    }
+
+    entry.count++;
+    entry.errors += failed ? 1 : 0;
+    entry.durations.push(duration);
+
+    if (entry.durations.length > LSP_LATENCY_SAMPLES) {
+        entry.durations.shift();
+    }
+}
+
+/**
+ * Nearest-rank percentile of sorted values.
+ */
+function percentile(sorted: number[], p: number): number {
+    if (sorted.length === 0) {
+        return 0;
+    }
+
+    const rank = Math.ceil((p / 100) * sorted.length);
+    return sorted[Math.max(rank - 1, 0)];
+}
+
+function getTrafficLog(logPath: string, server: string): fs.WriteStream | undefined {
+    let log = trafficLogs.get(logPath);
+
+    if (!log) {
+        try {
+            fs.mkdirSync(path.dirname(logPath), { recursive: true });
+            const stream = fs.createWriteStream(logPath, { flags: 'a' });
+            stream.on('error', err => error(`Failed to write LSP traffic to ${logPath}`, err));
+            log = { stream, servers: new Set() };
+            trafficLogs.set(logPath, log);
+            info(`Recording LSP traffic to ${logPath}`);
+        } catch (err) {
+            error(`Failed to open LSP traffic log ${logPath}`, err);
+            return undefined;
+        }
+    }
+
+    log.servers.add(server);
+    return log.stream;
+}
+
+/**
+ * Split a byte stream with `Content-Length` framing into parsed JSON-RPC messages.
+ */
+function createMessageParser(onMessage: (message: unknown) => void): (chunk: string | Uint8Array) => void {
+    let buffer = Buffer.alloc(0);
+
+    return chunk => {
+        buffer = Buffer.concat([buffer, typeof chunk === 'string' ? Buffer.from(chunk, 'utf8') : chunk]);
+
+        for (;;) {
+            const headerEnd = buffer.indexOf('\r\n\r\n');
+
+            if (headerEnd < 0) {
+                return;
+            }
+
+            const header = buffer.subarray(0, headerEnd).toString('ascii');
+            const length = Number(/Content-Length: *(\d+)/i.exec(header)?.[1]);
+
+            if (!Number.isFinite(length)) {
+                // Not LSP framing, drop what we have and resync on the next header
+                buffer = buffer.subarray(headerEnd + 4);
+                continue;
+            }
+
+            const bodyStart = headerEnd + 4;
+
+            if (buffer.length < bodyStart + length) {
+                return;
+            }
+
+            const body = buffer.subarray(bodyStart, bodyStart + length).toString('utf8');
+            buffer = buffer.subarray(bodyStart + length);
+
+            try {
+                onMessage(JSON.parse(body));
+            } catch {
+                onMessage(body);
+            }
+        }
+    };
+}
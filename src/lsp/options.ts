@@ -0,0 +1,26 @@
+import { BuildProfile } from '../profile';
+import { ProjectTarget } from '../project';
+
+/**
+ * Build profile sent to the server in its initialization options, it decides which `$if` branches
+ * and `$feature` checks are analyzed. Nothing here imports vscode, so the unit tests run it with plain Node.
+ */
+export interface ServerProfileOptions {
+    /** project.json target picked in the status bar */
+    buildTarget: string | undefined;
+    /** `--target` triple, the picked one or the one the project target declares */
+    platform: string | undefined;
+    /** Features the project target enables, the ones c3c gets as `-D` defines */
+    features: string[];
+}
+
+/**
+ * Fill in a build profile with the platform and features of its project.json target.
+ */
+export function getServerProfileOptions(profile: BuildProfile, target: ProjectTarget | undefined): ServerProfileOptions {
+    return {
+        buildTarget: profile.target,
+        platform: profile.platform ?? target?.platform,
+        features: target?.features ?? [],
+    };
+}
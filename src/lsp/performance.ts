@@ -0,0 +1,128 @@
+import * as vscode from 'vscode';
+import { LSP_PERFORMANCE_REFRESH_INTERVAL, LSP_PERFORMANCE_VIEW_TYPE } from '../constants';
+import { getLSPConfig } from '../config';
+import { getMethodSummaries, resetStats } from './instrumentation';
+
+let panel: vscode.WebviewPanel | null = null;
+
+/**
+ * Show per-method request counts and latencies of the language servers.
+ * The table refreshes while the panel is visible.
+ */
+export function showLSPPerformance(): void {
+    if (panel) {
+        panel.reveal();
+        return;
+    }
+
+    panel = vscode.window.createWebviewPanel(
+        LSP_PERFORMANCE_VIEW_TYPE,
+        'C3 Language Server Performance',
+        vscode.ViewColumn.Active,
+        { enableScripts: true }
+    );
+
+    // The page is built once, the table is updated through messages
+    panel.webview.html = getHtml(panel.webview);
+
+    const render = () => {
+        if (panel?.visible) {
+            void panel.webview.postMessage({ command: 'update', summaries: getMethodSummaries(), trafficLog: Boolean(getLSPConfig().trafficLog) });
+        }
+    };
+
+    const timer = setInterval(render, LSP_PERFORMANCE_REFRESH_INTERVAL);
+
+    panel.webview.onDidReceiveMessage((message: { command: string }) => {
+        if (message.command === 'ready') {
+            render();
+        } else if (message.command === 'reset') {
+            resetStats();
+            render();
+        } else if (message.command === 'openTrafficLog') {
+            const trafficLog = getLSPConfig().trafficLog;
+            if (trafficLog) {
+                void vscode.window.showTextDocument(vscode.Uri.file(trafficLog));
+            }
+        }
+    });
+
+    panel.onDidChangeViewState(render);
+
+    panel.onDidDispose(() => {
+        clearInterval(timer);
+        panel = null;
+    });
+}
+
+/**
+ * The page renders the `MethodSummary` list of each `update` message, and asks for one when it loads
+ * since a hidden panel's page is recreated when it is shown again.
+ */
+function getHtml(webview: vscode.Webview): string {
+    const nonce = Array.from({ length: 32 }, () => Math.floor(Math.random() * 36).toString(36)).join('');
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src ${webview.cspSource} 'unsafe-inline'; script-src 'nonce-${nonce}';">
+    <style>
+        body { font-family: var(--vscode-font-family); color: var(--vscode-foreground); }
+        table { border-collapse: collapse; width: 100%; }
+        th, td { padding: 4px 8px; border-bottom: 1px solid var(--vscode-panel-border); text-align: left; }
+        .number { text-align: right; font-variant-numeric: tabular-nums; }
+        button { margin-right: 8px; }
+        [hidden] { display: none; }
+    </style>
+</head>
+<body>
+    <p>
+        <button id="reset">Reset</button>
+        <button id="openTrafficLog" hidden>Open Traffic Log</button>
+        <span id="trafficLogHint" hidden>Set <code>c3.lsp.trafficLog</code> to record the JSON-RPC traffic to a file.</span>
+    </p>
+    <p id="empty">No language server traffic yet.</p>
+    <table id="table" hidden>
+        <thead>
+            <tr><th>Method</th><th>Kind</th><th class="number">Count</th><th class="number">Errors</th><th class="number">p50</th><th class="number">p95</th><th class="number">Max</th></tr>
+        </thead>
+        <tbody id="rows"></tbody>
+    </table>
+    <script nonce="${nonce}">
+        const vscode = acquireVsCodeApi();
+        const formatMs = ms => \`\${ms.toFixed(ms < 10 ? 1 : 0)} ms\`;
+
+        for (const command of ['reset', 'openTrafficLog']) {
+            document.getElementById(command).addEventListener('click', () => vscode.postMessage({ command }));
+        }
+
+        window.addEventListener('message', ({ data }) => {
+            if (data.command !== 'update') {
+                return;
+            }
+
+            document.getElementById('openTrafficLog').hidden = !data.trafficLog;
+            document.getElementById('trafficLogHint').hidden = data.trafficLog;
+            document.getElementById('empty').hidden = data.summaries.length > 0;
+            document.getElementById('table').hidden = data.summaries.length === 0;
+
+            document.getElementById('rows').replaceChildren(...data.summaries.map(summary => {
+                const row = document.createElement('tr');
+                const cells = [summary.method, summary.kind, summary.count, summary.errors, formatMs(summary.p50), formatMs(summary.p95), formatMs(summary.max)];
+
+                cells.forEach((value, index) => {
+                    const cell = row.insertCell();
+                    cell.textContent = String(value);
+                    cell.className = index >= 2 ? 'number' : '';
+                });
+
+                return row;
+            }));
+        });
+
+        vscode.postMessage({ command: 'ready' });
+    </script>
+</body>
+</html>`;
+}
@@ -0,0 +1,134 @@
+import * as vscode from 'vscode';
+
+/**
+ * State of the language server shown in the status bar
+ */
+export type LSPState = 'starting' | 'running' | 'crashed' | 'stopped' | 'disabled';
+
+/**
+ * Details shown next to the state
+ */
+export interface LSPStatusDetails {
+    version?: string;
+    langVersion?: string;
+    /** Why the server crashed or is not running */
+    reason?: string;
+}
+
+/**
+ * Status of the server of one workspace folder
+ */
+interface ServerStatus {
+    folder: vscode.WorkspaceFolder | undefined;
+    state: LSPState;
+    details: LSPStatusDetails;
+}
+
+const STATE_ICONS: Record<LSPState, string> = {
+    starting: '$(sync~spin)',
+    running: '$(check)',
+    crashed: '$(error)',
+    stopped: '$(debug-stop)',
+    disabled: '$(circle-slash)',
+};
+
+let statusItem: vscode.StatusBarItem | null = null;
+
+/** Status by workspace folder URI, an empty key is used when no folder is open */
+const statuses = new Map<string, ServerStatus>();
+
+/**
+ * Create the status bar item, clicking it opens the language server menu.
+ * It shows the server of the active editor's workspace folder.
+ */
+export function registerLSPStatus(context: vscode.ExtensionContext): void {
+    statusItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Right, 100);
+    statusItem.name = 'C3 Language Server';
+    statusItem.command = 'c3.showLSPMenu';
+
+    context.subscriptions.push(
+        statusItem,
+        vscode.window.onDidChangeActiveTextEditor(() => updateStatusItem())
+    );
+
+    updateStatusItem();
+    statusItem.show();
+}
+
+/**
+ * Update the status of a folder's server.
+ */
+export function setLSPStatus(folder: vscode.WorkspaceFolder | undefined, state: LSPState, details: LSPStatusDetails = {}): void {
+    statuses.set(folder?.uri.toString() ?? '', { folder, state, details });
+    updateStatusItem();
+}
+
+/**
+ * Forget the status of a removed folder.
+ */
+export function clearLSPStatus(folder: vscode.WorkspaceFolder | undefined): void {
+    statuses.delete(folder?.uri.toString() ?? '');
+    updateStatusItem();
+}
+
+/**
+ * Show the actions available for the language server.
+ */
+export async function showLSPMenu(): Promise<void> {
+    const picked = await vscode.window.showQuickPick(
+        [
+            { label: '$(debug-restart) Restart Language Server', command: 'c3.restartLSP' },
+            { label: '$(output) Show Language Server Logs', command: 'c3.showLSPLogs' },
+            { label: '$(versions) Install Language Server Version...', command: 'c3.installLSPVersion' },
+            { label: '$(history) Roll Back Language Server', command: 'c3.rollbackLSP' },
+            { label: '$(info) Show Versions', command: 'c3.showVersions' },
+            { label: '$(tools) Check Toolchain', command: 'c3.checkToolchain' },
+            { label: '$(gear) Open Settings', command: 'workbench.action.openSettings', args: ['c3.lsp'] },
+        ],
+        { title: 'C3 Language Server' }
+    );
+
+    if (picked) {
+        await vscode.commands.executeCommand(picked.command, ...(picked.args ?? []));
+    }
+}
+
+function updateStatusItem(): void {
+    if (!statusItem) {
+        return;
+    }
+
+    const activeUri = vscode.window.activeTextEditor?.document.uri;
+    const activeFolder = activeUri ? vscode.workspace.getWorkspaceFolder(activeUri) : undefined;
+    const status = statuses.get(activeFolder?.uri.toString() ?? '') ?? statuses.values().next().value;
+
+    if (!status) {
+        statusItem.text = `${STATE_ICONS.stopped} C3 LSP`;
+        statusItem.tooltip = 'C3 Language Server: stopped';
+        statusItem.backgroundColor = undefined;
+        return;
+    }
+
+    const { state, details } = status;
+
+    statusItem.text = `${STATE_ICONS[state]} C3 LSP${details.version ? ` ${details.version}` : ''}`;
+    statusItem.backgroundColor = state === 'crashed'
+        ? new vscode.ThemeColor('statusBarItem.errorBackground')
+        : undefined;
+
+    const tooltip = new vscode.MarkdownString();
+
+    for (const { folder, state, details } of statuses.values()) {
+        tooltip.appendMarkdown(`**C3 Language Server${folder && statuses.size > 1 ? ` (${folder.name})` : ''}**: ${state}\n\n`);
+        tooltip.appendMarkdown(`Version: ${details.version ?? 'unknown'}\n\n`);
+        tooltip.appendMarkdown(`Language version: ${details.langVersion ?? 'latest'}\n\n`);
+
+        if (details.reason) {
+            tooltip.appendMarkdown(`Reason: `);
+            tooltip.appendText(details.reason);
+            tooltip.appendMarkdown('\n\n');
+        }
+    }
+
+    statusItem.tooltip = tooltip;
+}
@@ -0,0 +1,125 @@
+import * as vscode from 'vscode';
+import { CloseAction, ErrorAction, ErrorHandler } from 'vscode-languageclient/node';
+import { LSP_HEALTHY_UPTIME, LSP_MAX_CRASHES, LSP_RESTART_BASE_DELAY, LSP_RESTART_MAX_DELAY } from '../constants';
+import { error, showOutput, warning } from '../logger';
+
+/** How long to wait for the exit code after the connection closed */
+const EXIT_WAIT = 1000;
+
+/**
+ * Crash tracking of one server
+ */
+interface SupervisorState {
+    serverExit?: Promise<string>;
+    startedAt: number;
+    crashCount: number;
+    restartTimer?: NodeJS.Timeout;
+}
+
+/** Supervisor state by server key, one server runs per workspace folder */
+const states = new Map<string, SupervisorState>();
+
+/**
+ * Remember how the current server connection ends, so the reason can be reported when it crashes.
+ */
+export function trackServerExit(key: string, exit: Promise<string>): void {
+    getState(key).serverExit = exit;
+}
+
+/**
+ * Restart the server with exponential backoff when the connection closes unexpectedly.
+ * After `LSP_MAX_CRASHES` crashes in a row the server stays down until it is restarted manually.
+ */
+export function createErrorHandler(key: string, name: string, restart: () => Promise<void>, onCrash: (reason: string, willRestart: boolean) => void): ErrorHandler {
+    return {
+        error: (_err, _message, count) => ({
+            action: count && count <= 3 ? ErrorAction.Continue : ErrorAction.Shutdown,
+        }),
+
+        closed: async () => {
+            const state = getState(key);
+            const reason = await getExitReason(state);
+
+            // A long running server crashing is not part of a crash loop
+            if (Date.now() - state.startedAt > LSP_HEALTHY_UPTIME) {
+                state.crashCount = 0;
+            }
+
+            state.crashCount++;
+
+            if (state.crashCount > LSP_MAX_CRASHES) {
+                onCrash(reason, false);
+                void notifyGaveUp(key, name, reason, restart);
+                return { action: CloseAction.DoNotRestart, handled: true };
+            }
+
+            const delay = Math.min(LSP_RESTART_BASE_DELAY * 2 ** (state.crashCount - 1), LSP_RESTART_MAX_DELAY);
+            warning(`${name} crashed (${reason}), restarting in ${delay} ms (attempt ${state.crashCount} of ${LSP_MAX_CRASHES})`);
+            onCrash(reason, true);
+
+            cancelRestart(key);
+            state.restartTimer = setTimeout(() => {
+                state.restartTimer = undefined;
+                restart().catch(err => error(`Failed to restart ${name}`, err));
+            }, delay);
+
+            return { action: CloseAction.DoNotRestart, handled: true };
+        },
+    };
+}
+
+/**
+ * Remember when the server started, to tell crash loops from occasional crashes.
+ */
+export function markStarted(key: string): void {
+    getState(key).startedAt = Date.now();
+}
+
+/**
+ * Cancel a pending restart, e.g. when the server is stopped on purpose.
+ */
+export function cancelRestart(key: string): void {
+    const state = states.get(key);
+
+    if (state?.restartTimer) {
+        clearTimeout(state.restartTimer);
+        state.restartTimer = undefined;
+    }
+}
+
+/**
+ * Forget previous crashes, used when the user restarts the server.
+ */
+export function resetCrashes(key: string): void {
+    getState(key).crashCount = 0;
+}
+
+function getState(key: string): SupervisorState {
+    let state = states.get(key);
+
+    if (!state) {
+        state = { startedAt: 0, crashCount: 0 };
+        states.set(key, state);
+    }
+
+    return state;
+}
+
+async function getExitReason(state: SupervisorState): Promise<string> {
+    const timeout = new Promise<string>(resolve => setTimeout(() => resolve('connection closed'), EXIT_WAIT));
+    return state.serverExit ? Promise.race([state.serverExit, timeout]) : 'connection closed';
+}
+
+async function notifyGaveUp(key: string, name: string, reason: string, restart: () => Promise<void>): Promise<void> {
+    const message = `${name} crashed ${getState(key).crashCount} times in a row (${reason}) and will not be restarted.`;
+    error(message);
+
+    const choice = await vscode.window.showErrorMessage(message, 'Restart', 'Show Logs');
+
+    if (choice === 'Restart') {
+        resetCrashes(key);
+        await restart();
+    } else if (choice === 'Show Logs') {
+        showOutput();
+    }
+}
@@ -0,0 +1,135 @@
+import * as cp from 'child_process';
+import * as net from 'net';
+import { ServerOptions, StreamInfo } from 'vscode-languageclient/node';
+import { LSPConfig } from '../config';
+import { LSP_CONNECT_ATTEMPTS, LSP_RESTART_BASE_DELAY } from '../constants';
+import { info, warning } from '../logger';
+import { trackServerExit } from './supervisor';
+import { recordTraffic } from './instrumentation';
+
+/** Host used for TCP addresses that only give a port */
+const DEFAULT_HOST = '127.0.0.1';
+
+/**
+ * Build the server options for `c3.lsp.transport`: spawn the binary over stdio,
+ * or attach to an already running server over TCP or a named pipe.
+ */
+export function createServerOptions(key: string, lspConfig: LSPConfig, args: string[], cwd?: string): ServerOptions {
+    switch (lspConfig.transport) {
+        case 'tcp': {
+            const { host, port } = parseTcpAddress(lspConfig.address);
+            return () => connect(key, lspConfig, `${host}:${port}`, () => net.connect(port, host));
+        }
+
+        case 'pipe': {
+            const pipe = getPipePath(lspConfig.address);
+            return () => connect(key, lspConfig, pipe, () => net.connect(pipe));
+        }
+
+        case 'stdio':
+        default:
+            return spawn(key, lspConfig, args, cwd);
+    }
+}
+
+/**
+ * Check if the transport needs a local binary.
+ */
+export function spawnsServer(lspConfig: LSPConfig): boolean {
+    return lspConfig.transport === 'stdio';
+}
+
+/**
+ * Spawn the server process ourselves, so the exit code is known when it crashes.
+ */
+function spawn(key: string, lspConfig: LSPConfig, args: string[], cwd?: string): ServerOptions {
+    return async () => {
+        const proc = cp.spawn(lspConfig.path!, args, { cwd });
+
+        if (lspConfig.trafficLog) {
+            recordTraffic(lspConfig.trafficLog, key, proc.stdout, proc.stdin);
+        }
+
+        trackServerExit(key, new Promise(resolve => {
+            proc.on('error', err => resolve(err.message));
+            proc.on('exit', (code, signal) => resolve(signal ? `killed by ${signal}` : `exited with code ${code}`));
+        }));
+
+        return proc;
+    };
+}
+
+/**
+ * Connect to a running server, retrying with backoff while it is not listening yet,
+ * e.g. when it is still starting in a container or under a debugger.
+ */
+async function connect(key: string, lspConfig: LSPConfig, address: string, createSocket: () => net.Socket): Promise<StreamInfo> {
+    for (let attempt = 1; ; attempt++) {
+        try {
+            const socket = await openSocket(createSocket);
+            info(`Connected to LSP at ${address}`);
+
+            if (lspConfig.trafficLog) {
+                recordTraffic(lspConfig.trafficLog, key, socket, socket);
+            }
+
+            trackServerExit(key, new Promise(resolve => {
+                socket.on('error', err => resolve(err.message));
+                socket.on('close', () => resolve(`connection to ${address} closed`));
+            }));
+
+            // The server was not started by us, leave its process alone
+            return { reader: socket, writer: socket, detached: true };
+        } catch (err) {
+            if (attempt >= LSP_CONNECT_ATTEMPTS) {
+                throw new Error(`Could not connect to LSP at ${address}: ${err instanceof Error ? err.message : String(err)}`);
+            }
+
+            const delay = LSP_RESTART_BASE_DELAY * 2 ** (attempt - 1);
+            warning(`Could not connect to LSP at ${address}, retrying in ${delay} ms`);
+            await new Promise(resolve => setTimeout(resolve, delay));
+        }
+    }
+}
+
+function openSocket(createSocket: () => net.Socket): Promise<net.Socket> {
+    return new Promise((resolve, reject) => {
+        const socket = createSocket();
+
+        socket.once('connect', () => {
+            socket.off('error', reject);
+            resolve(socket);
+        });
+        socket.once('error', reject);
+    });
+}
+
+/**
+ * Parse `host:port` or a bare port.
+ */
+function parseTcpAddress(address: string | undefined): { host: string; port: number } {
+    const match = /^(?:(.*):)?(\d+)$/.exec(address?.trim() ?? '');
+
+    if (!match) {
+        throw new Error(`Invalid c3.lsp.address for TCP, expected host:port: ${address ?? ''}`);
+    }
+
+    // IPv6 hosts are written in brackets, e.g. [::1]:5007
+    const host = match[1]?.replace(/^\[(.*)\]$/, '$1');
+    return { host: host || DEFAULT_HOST, port: Number(match[2]) };
+}
+
+/**
+ * Named pipes on Windows live in `\\.\pipe\`, elsewhere the address is a Unix socket path.
+ */
+function getPipePath(address: string | undefined): string {
+    if (!address) {
+        throw new Error('c3.lsp.address must name the pipe to connect to');
+    }
+
+    if (process.platform === 'win32' && !address.startsWith('\\\\')) {
+        return `\\\\.\\pipe\\${address}`;
+    }
+
+    return address;
+}
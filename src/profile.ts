@@ -0,0 +1,194 @@
+import * as vscode from 'vscode';
+import { BUILD_PROFILE_STATE_KEY, C3C_FLAGS, C3_LANGUAGE_ID, PROJECT_FILE_NAME } from './constants';
+import { Project, ProjectTarget, findProjects } from './project';
+import { listTargets } from './compiler';
+import { error, info } from './logger';
+
+/**
+ * Project target and platform picked for a workspace folder
+ */
+export interface BuildProfile {
+    /** project.json target, commands ask when unset and there are several */
+    target: string | undefined;
+    /** `--target` triple, unset to use the one in project.json or the host */
+    platform: string | undefined;
+}
+
+let state: vscode.Memento | null = null;
+let statusItem: vscode.StatusBarItem | null = null;
+
+/** Set when the workspace contains a project.json, the status bar item is also shown for C3 files */
+let hasProjects = false;
+
+const profileChanged = new vscode.EventEmitter<vscode.WorkspaceFolder | undefined>();
+
+/**
+ * Fired with the folder whose build profile changed, also when its project.json changed.
+ */
+export const onDidChangeBuildProfile = profileChanged.event;
+
+/**
+ * Create the status bar item showing the active project target and platform, clicking it picks them.
+ */
+export function registerBuildProfile(context: vscode.ExtensionContext): void {
+    state = context.workspaceState;
+
+    statusItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left, 50);
+    statusItem.name = 'C3 Build Profile';
+    statusItem.command = 'c3.selectBuildProfile';
+
+    // Target features and default platforms come from project.json
+    const projectWatcher = vscode.workspace.createFileSystemWatcher(`**/${PROJECT_FILE_NAME}`);
+    const onProjectChange = (uri: vscode.Uri) => {
+        profileChanged.fire(vscode.workspace.getWorkspaceFolder(uri));
+        void refreshProjects();
+    };
+
+    context.subscriptions.push(
+        statusItem,
+        profileChanged,
+        projectWatcher,
+        projectWatcher.onDidCreate(onProjectChange),
+        projectWatcher.onDidChange(onProjectChange),
+        projectWatcher.onDidDelete(onProjectChange),
+        vscode.window.onDidChangeActiveTextEditor(() => updateStatusItem())
+    );
+
+    void refreshProjects();
+}
+
+/**
+ * Get the build profile picked for a workspace folder.
+ */
+export function getBuildProfile(folder: vscode.WorkspaceFolder | undefined): BuildProfile {
+    return state?.get<Record<string, BuildProfile>>(BUILD_PROFILE_STATE_KEY, {})[getKey(folder)]
+        ?? { target: undefined, platform: undefined };
+}
+
+/**
+ * Find the project.json target picked in a folder's build profile.
+ */
+export async function findProfileTarget(folder: vscode.WorkspaceFolder | undefined): Promise<ProjectTarget | undefined> {
+    const projects = getBuildProfile(folder).target ? await findFolderProjects(folder) : [];
+    return projects.map(project => getProfileTarget(project)).find(t => t !== undefined);
+}
+
+/**
+ * The project's target picked in the build profile, if the project declares it with one of the given types.
+ */
+export function getProfileTarget(project: Project, types?: string[]): ProjectTarget | undefined {
+    const { target } = getBuildProfile(project.workspaceFolder);
+    return project.targets.find(t => t.name === target && (!types || types.includes(t.type)));
+}
+
+/**
+ * The `--target` arguments for the platform picked in a folder's build profile, empty for the default.
+ */
+export function getPlatformArgs(folder: vscode.WorkspaceFolder | undefined): string[] {
+    const { platform } = getBuildProfile(folder);
+    return platform ? [C3C_FLAGS.TARGET, platform] : [];
+}
+
+/**
+ * Pick the project target and platform of the active workspace folder.
+ */
+export async function selectBuildProfile(folder = getActiveFolder()): Promise<void> {
+    const current = getBuildProfile(folder);
+    const projects = await findFolderProjects(folder);
+
+    const targetPick = await vscode.window.showQuickPick(
+        [
+            { label: 'Any', description: current.target === undefined ? 'current' : 'ask when needed', target: undefined as ProjectTarget | undefined },
+            ...projects.flatMap(project => project.targets.map(target => ({
+                label: target.name,
+                description: [target.type, target.platform, target.name === current.target ? 'current' : undefined].filter(Boolean).join(' · '),
+                detail: projects.length > 1 ? vscode.workspace.asRelativePath(project.uri) : undefined,
+                target,
+            }))),
+        ],
+        { title: 'Build Profile: Project Target' }
+    );
+
+    if (!targetPick) {
+        return;
+    }
+
+    const platforms = await listTargets(folder?.uri);
+    const defaultPlatform = targetPick.target?.platform;
+    const platformPick = await vscode.window.showQuickPick(
+        [
+            {
+                label: 'Default',
+                description: [defaultPlatform ? `${defaultPlatform} from project.json` : 'the machine c3c runs on', current.platform === undefined ? 'current' : undefined].filter(Boolean).join(' · '),
+                platform: undefined as string | undefined,
+            },
+            ...platforms.map(platform => ({ label: platform, description: platform === current.platform ? 'current' : undefined, platform })),
+        ],
+        { title: 'Build Profile: Platform' }
+    );
+
+    if (!platformPick) {
+        return;
+    }
+
+    await setBuildProfile(folder, { target: targetPick.target?.name, platform: platformPick.platform });
+}
+
+async function setBuildProfile(folder: vscode.WorkspaceFolder | undefined, profile: BuildProfile): Promise<void> {
+    const all = { ...state?.get<Record<string, BuildProfile>>(BUILD_PROFILE_STATE_KEY, {}) };
+    all[getKey(folder)] = profile;
+    await state?.update(BUILD_PROFILE_STATE_KEY, all);
+
+    info(`Build profile${folder ? ` of ${folder.name}` : ''} set to ${describe(profile)}`);
+    profileChanged.fire(folder);
+    updateStatusItem();
+}
+
+async function refreshProjects(): Promise<void> {
+    try {
+        hasProjects = (await findProjects()).length > 0;
+    } catch (err) {
+        error('Failed to find projects for the build profile', err);
+    }
+
+    updateStatusItem();
+}
+
+function updateStatusItem(): void {
+    if (!statusItem) {
+        return;
+    }
+
+    const folder = getActiveFolder();
+    const profile = getBuildProfile(folder);
+
+    if (!hasProjects && vscode.window.activeTextEditor?.document.languageId !== C3_LANGUAGE_ID) {
+        statusItem.hide();
+        return;
+    }
+
+    statusItem.text = `$(target) ${describe(profile)}`;
+    statusItem.tooltip = `C3 build profile${folder ? ` of ${folder.name}` : ''}: project target and platform used by tasks, run, debug and the language server. Click to change.`;
+    statusItem.show();
+}
+
+function describe(profile: BuildProfile): string {
+    return `${profile.target ?? 'Any target'} · ${profile.platform ?? 'default platform'}`;
+}
+
+async function findFolderProjects(folder: vscode.WorkspaceFolder | undefined): Promise<Project[]> {
+    return (await findProjects()).filter(project =>
+        !folder || project.workspaceFolder?.uri.toString() === folder.uri.toString());
+}
+
+/**
+ * The active editor's workspace folder, or the first one.
+ */
+function getActiveFolder(): vscode.WorkspaceFolder | undefined {
+    const uri = vscode.window.activeTextEditor?.document.uri;
+    return (uri && vscode.workspace.getWorkspaceFolder(uri)) ?? vscode.workspace.workspaceFolders?.[0];
+}
+
+function getKey(folder: vscode.WorkspaceFolder | undefined): string {
+    return folder?.uri.toString() ?? '';
+}
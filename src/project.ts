@@ -0,0 +1,118 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import * as jsonc from 'jsonc-parser';
+import { PROJECT_FILE_NAME } from './constants';
+import { error } from './logger';
+
+/**
+ * A single entry of the `targets` object in project.json
+ */
+export interface ProjectTarget {
+    name: string;
+    type: string;
+    /** `target` triple set in project.json for this target or the whole project */
+    platform: string | undefined;
+    /** Features enabled for this target, including the project-wide ones */
+    features: string[];
+}
+
+/**
+ * A c3c project found in the workspace
+ */
+export interface Project {
+    /** Location of the project.json file */
+    uri: vscode.Uri;
+    /** Directory containing project.json, used as working directory for c3c */
+    directory: vscode.Uri;
+    /** Workspace folder the project belongs to */
+    workspaceFolder: vscode.WorkspaceFolder | undefined;
+    targets: ProjectTarget[];
+}
+
+/** Target types that produce a runnable binary */
+const EXECUTABLE_TARGET_TYPES = ['executable', 'test', 'benchmark'];
+
+/**
+ * Find all project.json files in the workspace and parse them.
+ */
+export async function findProjects(): Promise<Project[]> {
+    const files = await vscode.workspace.findFiles(`**/${PROJECT_FILE_NAME}`, '**/{node_modules,build,.git}/**');
+    const projects: Project[] = [];
+
+    for (const file of files) {
+        const project = await readProject(file);
+
+        if (project) {
+            projects.push(project);
+        }
+    }
+
+    return projects;
+}
+
+/**
+ * Find the innermost project containing the given file. Runs looking up many files
+ * pass the result of `findProjects` so the workspace is searched only once.
+ */
+export async function findProjectForFile(file: vscode.Uri, projects?: Project[]): Promise<Project | null> {
+    const containing = (projects ?? await findProjects())
+        .filter(p => file.fsPath.startsWith(p.directory.fsPath + path.sep))
+        .sort((a, b) => b.directory.fsPath.length - a.directory.fsPath.length);
+
+    return containing.at(0) ?? null;
+}
+
+/**
+ * Read and parse a single project.json file. Returns null if it is not a valid c3c project.
+ */
+export async function readProject(uri: vscode.Uri): Promise<Project | null> {
+    let text: string;
+
+    try {
+        text = new TextDecoder().decode(await vscode.workspace.fs.readFile(uri));
+    } catch (err) {
+        error(`Failed to read ${uri.fsPath}`, err);
+        return null;
+    }
+
+    const errors: jsonc.ParseError[] = [];
+    const json = jsonc.parse(text, errors, { allowTrailingComma: true });
+
+    if (!json || typeof json !== 'object' || Array.isArray(json)) {
+        error(`Failed to parse ${uri.fsPath}`);
+        return null;
+    }
+
+    const targets: ProjectTarget[] = [];
+    const rawTargets = json['targets'];
+    const features = toStringArray(json['features']);
+
+    if (rawTargets && typeof rawTargets === 'object') {
+        for (const [name, target] of Object.entries<{ type?: unknown; target?: unknown; features?: unknown }>(rawTargets)) {
+            targets.push({
+                name,
+                type: typeof target?.type === 'string' ? target.type : 'executable',
+                platform: typeof target?.target === 'string' ? target.target : typeof json['target'] === 'string' ? json['target'] : undefined,
+                features: [...new Set([...features, ...toStringArray(target?.features)])],
+            });
+        }
+    }
+
+    return {
+        uri,
+        directory: vscode.Uri.joinPath(uri, '..'),
+        workspaceFolder: vscode.workspace.getWorkspaceFolder(uri),
+        targets,
+    };
+}
+
+/**
+ * Check if a target produces a binary that can be run.
+ */
+export function isRunnableTarget(target: ProjectTarget): boolean {
+    return EXECUTABLE_TARGET_TYPES.includes(target.type);
+}
+
+function toStringArray(value: unknown): string[] {
+    return Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : [];
+}
@@ -0,0 +1,273 @@
+import * as fs from 'fs';
+import * as semver from 'semver';
+import * as vscode from 'vscode';
+import axios from 'axios';
+import { platform, machine } from 'os';
+import * as log from './logger';
+import { getC3Config } from './config';
+import { RELEASES_CACHE_KEY } from './constants';
+
+/**
+ * Map of platform keys (e.g., "x86_64-linux") to download URLs and their optional SHA-256 checksums
+ */
+export interface ArtifactMap {
+    [platformKey: string]: {
+        url: string;
+        sha256?: string;
+        /** Checksum file published with the release, read when `sha256` is not set */
+        checksumsUrl?: string;
+    };
+}
+
+/**
+ * Release channel, only stable releases are offered for automatic updates
+ */
+export type ReleaseChannel = 'stable' | 'prerelease' | 'nightly';
+
+/**
+ * Raw release data from a release manifest (version is string before parsing)
+ */
+interface RawReleaseInfo {
+    version: string;
+    channel?: ReleaseChannel;
+    date?: string;
+    artifacts: ArtifactMap;
+}
+
+/**
+ * Response structure of a release manifest, e.g. releases.json of c3-lsp
+ */
+interface ReleasesResponse {
+    releases: RawReleaseInfo[];
+}
+
+/**
+ * The fields used from a GitHub releases API response
+ */
+interface GitHubRelease {
+    tag_name: string;
+    name: string | null;
+    prerelease: boolean;
+    published_at: string | null;
+    assets: {
+        name: string;
+        browser_download_url: string;
+        /** e.g. `sha256:<hex>`, only present on newer releases */
+        digest?: string | null;
+    }[];
+}
+
+/**
+ * A release manifest as it was last downloaded
+ */
+interface CachedManifest {
+    fetchedAt: number;
+    data: unknown;
+}
+
+/**
+ * Options for fetching a release manifest
+ */
+export interface FetchReleasesOptions {
+    /** State used to cache downloaded manifests by URL, e.g. `context.globalState` */
+    cache?: vscode.Memento;
+    /** Use a cached manifest younger than this many milliseconds instead of fetching, 0 always fetches */
+    maxAge?: number;
+}
+
+/**
+ * A release version with download artifacts for each platform
+ */
+export interface ReleaseInfo {
+    version: semver.SemVer;
+    /** Name shown to the user, the tag for GitHub releases */
+    name: string;
+    channel: ReleaseChannel;
+    date?: string;
+    artifacts: ArtifactMap;
+}
+
+/** Names of release assets listing the SHA-256 of the other assets, e.g. `checksums.txt` or `SHA256SUMS` */
+const CHECKSUMS_REGEX = /^(?:.*[-_.])?(?:checksums?|sha256sums?)(?:\.txt)?$/i;
+
+/** Asset name keywords for each platform returned by `os.platform()` */
+const PLATFORM_KEYWORDS: Record<string, string[]> = {
+    linux: ['linux'],
+    darwin: ['macos', 'darwin', 'apple'],
+    win32: ['windows', 'win64'],
+};
+
+/** Asset name keywords for each architecture returned by `os.machine()` */
+const ARCH_KEYWORDS: Record<string, string[]> = {
+    x86_64: ['x86_64', 'x64', 'amd64'],
+    aarch64: ['aarch64', 'arm64'],
+    arm64: ['aarch64', 'arm64'],
+};
+
+/**
+ * Get the key used to look up artifacts for the current platform.
+ */
+export function getPlatformKey(): string {
+    return `${machine()}-${platform()}`;
+}
+
+/**
+ * Fetch and parse a release manifest, newest release first.
+ * The URL may be a release manifest or a GitHub releases API URL, served over HTTP(S)
+ * or from disk (`file://` URL or plain path) for local mirrors.
+ *
+ * With a cache, a fresh enough manifest is used without a request and a stale one is used
+ * when the request fails. In offline mode (`c3.offline`) remote manifests only come from the cache.
+ */
+export async function fetchReleases(url: string, options: FetchReleasesOptions = {}): Promise<ReleaseInfo[]> {
+    const isRemote = /^https?:\/\//.test(url);
+    const cached = isRemote ? getCachedManifest(options.cache, url) : undefined;
+
+    if (isRemote && getC3Config().offline) {
+        if (!cached) {
+            throw new Error(`Offline mode is enabled and no cached release manifest exists for ${url}`);
+        }
+
+        log.info(`Offline mode, using release manifest cached at ${new Date(cached.fetchedAt).toISOString()}`);
+        return parseManifest(cached.data);
+    }
+
+    if (cached && Date.now() - cached.fetchedAt < (options.maxAge ?? 0)) {
+        log.info(`Using cached releases for ${url}`);
+        return parseManifest(cached.data);
+    }
+
+    log.info(`Fetching releases from ${url}`);
+
+    let data: unknown;
+    try {
+        data = await readManifest(url);
+    } catch (err) {
+        if (!cached) {
+            throw err;
+        }
+
+        log.warning(`Failed to fetch releases from ${url}, using cached manifest: ${String(err)}`);
+        return parseManifest(cached.data);
+    }
+
+    if (isRemote && options.cache) {
+        await setCachedManifest(options.cache, url, { fetchedAt: Date.now(), data });
+    }
+
+    return parseManifest(data);
+}
+
+function parseManifest(data: unknown): ReleaseInfo[] {
+    const releases = Array.isArray(data)
+        ? (data as GitHubRelease[]).map(fromGitHubRelease)
+        : ((data as ReleasesResponse).releases ?? []).map(fromRawRelease);
+
+    return releases
+        .filter((release): release is ReleaseInfo => release !== null)
+        .sort((a, b) => semver.rcompare(a.version, b.version));
+}
+
+async function readManifest(url: string): Promise<unknown> {
+    if (/^https?:\/\//.test(url)) {
+        const response = await axios.get(url);
+        return response.data;
+    }
+
+    const file = url.startsWith('file:') ? vscode.Uri.parse(url).fsPath : url;
+    return JSON.parse(await fs.promises.readFile(file, 'utf-8'));
+}
+
+function getCachedManifest(cache: vscode.Memento | undefined, url: string): CachedManifest | undefined {
+    return cache?.get<Record<string, CachedManifest>>(RELEASES_CACHE_KEY, {})[url];
+}
+
+async function setCachedManifest(cache: vscode.Memento, url: string, manifest: CachedManifest): Promise<void> {
+    const manifests = cache.get<Record<string, CachedManifest>>(RELEASES_CACHE_KEY, {});
+    await cache.update(RELEASES_CACHE_KEY, { ...manifests, [url]: manifest });
+}
+
+function fromRawRelease(raw: RawReleaseInfo): ReleaseInfo | null {
+    const parsed = semver.parse(raw.version);
+
+    if (!parsed) {
+        log.error(`Invalid version format: ${raw.version}`);
+        return null;
+    }
+
+    return {
+        version: parsed,
+        name: raw.version,
+        channel: raw.channel ?? (parsed.prerelease.length > 0 ? 'prerelease' : 'stable'),
+        date: raw.date,
+        artifacts: raw.artifacts,
+    };
+}
+
+/**
+ * Convert a GitHub release into a release manifest entry by matching asset names to platforms.
+ * Tags without a version (e.g. `latest-prerelease-tag`) are ordered by their publish date.
+ */
+function fromGitHubRelease(release: GitHubRelease): ReleaseInfo | null {
+    const isNightly = /nightly/i.test(release.tag_name);
+    const date = release.published_at?.slice(0, 10).replaceAll('-', '');
+    const version = semver.parse(semver.clean(release.tag_name) ?? '')
+        ?? semver.parse(`0.0.0-${isNightly ? 'nightly' : 'prerelease'}.${date ?? 0}`);
+
+    if (!version) {
+        return null;
+    }
+
+    const artifacts: ArtifactMap = {};
+    const checksums = release.assets.find(asset => CHECKSUMS_REGEX.test(asset.name));
+
+    for (const [os, osKeywords] of Object.entries(PLATFORM_KEYWORDS)) {
+        for (const [arch, archKeywords] of Object.entries(ARCH_KEYWORDS)) {
+            const asset = findAsset(release.assets, osKeywords, archKeywords);
+            if (asset) {
+                // A `<asset>.sha256` file next to the asset, otherwise the release's checksum list
+                const checksumFile = release.assets.find(other => other.name === `${asset.name}.sha256`) ?? checksums;
+
+                artifacts[`${arch}-${os}`] = {
+                    url: asset.browser_download_url,
+                    sha256: asset.digest?.startsWith('sha256:') ? asset.digest.slice('sha256:'.length) : undefined,
+                    checksumsUrl: checksumFile?.browser_download_url,
+                };
+            }
+        }
+    }
+
+    return {
+        version,
+        name: release.tag_name,
+        channel: isNightly ? 'nightly' : release.prerelease ? 'prerelease' : 'stable',
+        date: release.published_at ?? undefined,
+        artifacts,
+    };
+}
+
+/**
+ * Pick the asset for a platform, either an archive or a plain binary. Assets without an
+ * architecture in their name are assumed to be x86_64, except on macOS where they are universal binaries.
+ */
+function findAsset(assets: GitHubRelease['assets'], osKeywords: string[], archKeywords: string[]): GitHubRelease['assets'][number] | undefined {
+    const allArchKeywords = Object.values(ARCH_KEYWORDS).flat();
+    const candidates = assets.filter(asset => {
+        const name = asset.name.toLowerCase();
+        return osKeywords.some(k => name.includes(k))
+            && !name.includes('debug')
+            && /(\.(zip|tar\.gz|tgz|tar\.xz|exe)|^[^.]+)$/.test(name);
+    });
+
+    const exact = candidates.find(asset => archKeywords.some(k => asset.name.toLowerCase().includes(k)));
+    if (exact) {
+        return exact;
+    }
+
+    const generic = candidates.find(asset => !allArchKeywords.some(k => asset.name.toLowerCase().includes(k)));
+    if (generic && (archKeywords.includes('x86_64') || osKeywords.includes('macos'))) {
+        return generic;
+    }
+
+    return undefined;
+}
@@ -0,0 +1,257 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { C3C_COMMANDS, C3C_FLAGS, C3_LANGUAGE_ID, PROGRAM_ARGS_STATE_KEY } from './constants';
+import { SourceFunction, findFunctions } from './source';
+import { findProjectForFile } from './project';
+import { runCompilerTask } from './task';
+import { buildForDebugging, getDebugBinaryPath, startNativeDebugging } from './debug';
+import { getPlatformArgs, getProfileTarget } from './profile';
+import { info } from './logger';
+import { splitArgs } from './text';
+
+/**
+ * Where and how to compile a file: inside its project or on its own
+ */
+interface BuildContext {
+    cwd: string;
+    /** Executable target of the project, unset for standalone files */
+    target: string | undefined;
+    /** `--target` arguments of the build profile */
+    platformArgs: string[];
+}
+
+let state: vscode.Memento | null = null;
+
+/** Fired when program arguments change, the Args CodeLens shows them */
+const codeLensesChanged = new vscode.EventEmitter<void>();
+
+/**
+ * Register the Run and Debug CodeLens above `main` and `@test` functions.
+ */
+export function registerRunCodeLens(context: vscode.ExtensionContext): void {
+    state = context.workspaceState;
+
+    const codeLens = vscode.languages.registerCodeLensProvider(
+        { language: C3_LANGUAGE_ID, scheme: 'file' },
+        { provideCodeLenses: provideRunCodeLenses, onDidChangeCodeLenses: codeLensesChanged.event }
+    );
+
+    context.subscriptions.push(codeLens, codeLensesChanged);
+}
+
+/**
+ * Compile and run the file's program, inside its project with `c3c run` or on its own with `c3c compile-run`.
+ */
+export async function runMain(uri = getActiveUri()): Promise<void> {
+    const build = uri && await getBuildContext(uri);
+
+    if (!uri || !build) {
+        return;
+    }
+
+    const programArgs = getProgramArgs(uri);
+    const args = build.target
+        ? [C3C_COMMANDS.RUN, build.target, ...build.platformArgs]
+        : [C3C_COMMANDS.COMPILE_RUN, uri.fsPath, ...build.platformArgs];
+
+    if (programArgs.length > 0) {
+        args.push(C3C_FLAGS.PROGRAM_ARGS, ...programArgs);
+    }
+
+    await runCompilerTask(`Run ${build.target ?? path.basename(uri.fsPath)}`, args, build.cwd);
+}
+
+/**
+ * Build the file's program with debug info and start a native debug session.
+ */
+export async function debugMain(uri = getActiveUri()): Promise<void> {
+    const build = uri && await getBuildContext(uri);
+
+    if (!uri || !build) {
+        return;
+    }
+
+    const name = build.target ?? path.parse(uri.fsPath).name;
+    const program = getDebugBinaryPath(name);
+    const args = build.target
+        ? [C3C_COMMANDS.BUILD, build.target, ...build.platformArgs, C3C_FLAGS.DEBUG_INFO, C3C_FLAGS.OUTPUT, program]
+        : [C3C_COMMANDS.COMPILE, uri.fsPath, ...build.platformArgs, C3C_FLAGS.DEBUG_INFO, C3C_FLAGS.OUTPUT, program];
+
+    if (await buildForDebugging(name, args, build.cwd)) {
+        await startNativeDebugging({ name: `Debug ${name}`, program, args: getProgramArgs(uri), cwd: build.cwd }, vscode.workspace.getWorkspaceFolder(uri));
+    }
+}
+
+/**
+ * Run a single test, with `c3c test` in a project or `c3c compile-test` for a standalone file.
+ * Without a test ID the user picks one of the tests in the active file.
+ */
+export async function runTest(uri = getActiveUri(), testId?: string): Promise<void> {
+    testId ??= uri && await pickTest(uri);
+
+    if (!uri || !testId) {
+        return;
+    }
+
+    const project = await findProjectForFile(uri);
+    const args = project
+        ? [C3C_COMMANDS.TEST, C3C_FLAGS.TEST_FILTER, testId]
+        : [C3C_COMMANDS.COMPILE_TEST, uri.fsPath, C3C_FLAGS.TEST_FILTER, testId];
+
+    args.push(...getPlatformArgs(vscode.workspace.getWorkspaceFolder(uri)));
+
+    await runCompilerTask(`Test ${testId}`, args, project ? project.directory.fsPath : path.dirname(uri.fsPath));
+}
+
+/**
+ * Build the tests with debug info without running them, then debug the test runner filtered to one test.
+ */
+export async function debugTest(uri = getActiveUri(), testId?: string): Promise<void> {
+    testId ??= uri && await pickTest(uri);
+
+    if (!uri || !testId) {
+        return;
+    }
+
+    const project = await findProjectForFile(uri);
+    const cwd = project ? project.directory.fsPath : path.dirname(uri.fsPath);
+    const name = `${path.parse(uri.fsPath).name}-tests`;
+    const program = getDebugBinaryPath(name);
+    const args = [
+        ...(project ? [C3C_COMMANDS.TEST] : [C3C_COMMANDS.COMPILE_TEST, uri.fsPath]),
+        ...getPlatformArgs(vscode.workspace.getWorkspaceFolder(uri)),
+        C3C_FLAGS.DEBUG_INFO,
+        C3C_FLAGS.NO_RUN,
+        C3C_FLAGS.OUTPUT,
+        program,
+    ];
+
+    if (await buildForDebugging(name, args, cwd)) {
+        // The test runner takes the same filter option as c3c
+        await startNativeDebugging({ name: `Debug ${testId}`, program, args: [C3C_FLAGS.TEST_FILTER, testId], cwd }, vscode.workspace.getWorkspaceFolder(uri));
+    }
+}
+
+/**
+ * Ask for the program arguments used when running or debugging the file, stored in workspace state.
+ */
+export async function setProgramArgs(uri = getActiveUri()): Promise<void> {
+    if (!uri) {
+        return;
+    }
+
+    const value = await vscode.window.showInputBox({
+        title: `Program arguments for ${path.basename(uri.fsPath)}`,
+        prompt: 'Separate arguments with spaces, quote arguments containing spaces',
+        value: getProgramArgs(uri).map(quoteArg).join(' '),
+    });
+
+    if (value === undefined) {
+        return;
+    }
+
+    const all = { ...state?.get<Record<string, string[]>>(PROGRAM_ARGS_STATE_KEY, {}) };
+    const args = splitArgs(value);
+
+    if (args.length > 0) {
+        all[uri.toString()] = args;
+    } else {
+        delete all[uri.toString()];
+    }
+
+    await state?.update(PROGRAM_ARGS_STATE_KEY, all);
+    codeLensesChanged.fire();
+}
+
+function provideRunCodeLenses(document: vscode.TextDocument): vscode.CodeLens[] {
+    const lenses: vscode.CodeLens[] = [];
+    const uri = document.uri;
+
+    for (const fn of findFunctions(document)) {
+        if (isMain(fn)) {
+            const programArgs = getProgramArgs(uri);
+
+            lenses.push(
+                new vscode.CodeLens(fn.range, { title: 'Run', command: 'c3.runMain', arguments: [uri] }),
+                new vscode.CodeLens(fn.range, { title: 'Debug', command: 'c3.debugMain', arguments: [uri] }),
+                new vscode.CodeLens(fn.range, {
+                    title: programArgs.length > 0 ? `Args: ${programArgs.map(quoteArg).join(' ')}` : 'Args...',
+                    command: 'c3.setProgramArgs',
+                    arguments: [uri],
+                })
+            );
+        } else if (fn.attributes.includes('test')) {
+            const testId = getTestId(uri, fn);
+
+            lenses.push(
+                new vscode.CodeLens(fn.range, { title: 'Run test', command: 'c3.runTest', arguments: [uri, testId] }),
+                new vscode.CodeLens(fn.range, { title: 'Debug test', command: 'c3.debugTest', arguments: [uri, testId] })
+            );
+        }
+    }
+
+    return lenses;
+}
+
+function isMain(fn: SourceFunction): boolean {
+    return fn.name === 'main' && !fn.attributes.includes('test');
+}
+
+/**
+ * Same ID as the Test Explorer uses, also the `--test-filter` value.
+ */
+function getTestId(uri: vscode.Uri, fn: SourceFunction): string {
+    return `${fn.module || path.parse(uri.fsPath).name}::${fn.name}`;
+}
+
+async function pickTest(uri: vscode.Uri): Promise<string | undefined> {
+    const document = await vscode.workspace.openTextDocument(uri);
+    const tests = findFunctions(document).filter(fn => fn.attributes.includes('test'));
+
+    if (tests.length === 0) {
+        info(`No tests found in ${uri.fsPath}`);
+        return undefined;
+    }
+
+    return vscode.window.showQuickPick(tests.map(fn => getTestId(uri, fn)), { title: 'Select test' });
+}
+
+/**
+ * Files in a project are built through the build profile's target, or the project's executable target,
+ * picked if there are several. Files outside a project, or in a project without executables, are compiled on their own.
+ */
+async function getBuildContext(uri: vscode.Uri): Promise<BuildContext | null> {
+    const document = vscode.workspace.textDocuments.find(d => d.uri.toString() === uri.toString());
+
+    if (document?.isDirty) {
+        await document.save();
+    }
+
+    const project = await findProjectForFile(uri);
+    const executables = project?.targets.filter(t => t.type === 'executable') ?? [];
+    const platformArgs = getPlatformArgs(vscode.workspace.getWorkspaceFolder(uri));
+
+    if (!project || executables.length === 0) {
+        return { cwd: path.dirname(uri.fsPath), target: undefined, platformArgs };
+    }
+
+    const target = getProfileTarget(project, ['executable'])?.name
+        ?? (executables.length === 1
+            ? executables[0].name
+            : await vscode.window.showQuickPick(executables.map(t => t.name), { title: 'Select target' }));
+
+    return target ? { cwd: project.directory.fsPath, target, platformArgs } : null;
+}
+
+function getProgramArgs(uri: vscode.Uri): string[] {
+    return state?.get<Record<string, string[]>>(PROGRAM_ARGS_STATE_KEY, {})[uri.toString()] ?? [];
+}
+
+function getActiveUri(): vscode.Uri | undefined {
+    const document = vscode.window.activeTextEditor?.document;
+    return document?.languageId === C3_LANGUAGE_ID ? document.uri : undefined;
+}
+
+function quoteArg(arg: string): string {
+    return /\s/.test(arg) || arg === '' ? `"${arg}"` : arg;
+}
@@ -0,0 +1,447 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as jsonc from 'jsonc-parser';
+import { listTargets, runCompiler } from './compiler';
+import { C3C_COMMANDS, C3C_FLAGS, C3_LIBRARY_EXTENSION, MANIFEST_FILE_NAME, PROJECT_FILE_NAME } from './constants';
+import { error, errorAndShow, info } from './logger';
+
+/**
+ * Kind of project the wizard creates
+ */
+type ProjectKind = 'executable' | 'static-lib' | 'dynamic-lib' | 'c3l';
+
+/**
+ * Choices collected by the wizard
+ */
+interface ScaffoldOptions {
+    name: string;
+    kind: ProjectKind;
+    /** Target platform, the host platform when unset */
+    target: string | undefined;
+    tests: boolean;
+}
+
+/** Returned by a step when the user pressed the back button */
+const BACK = Symbol('back');
+
+/** A step returns true to go on, false when cancelled */
+type StepResult = boolean | typeof BACK;
+
+const KIND_ITEMS: { label: string; description: string; projectKind: ProjectKind }[] = [
+    { label: 'Executable', description: 'A program with a main function', projectKind: 'executable' },
+    { label: 'Static Library', description: 'A static library for C3 or C programs', projectKind: 'static-lib' },
+    { label: 'Dynamic Library', description: 'A shared library for C3 or C programs', projectKind: 'dynamic-lib' },
+    { label: 'C3 Library (.c3l)', description: 'A library other C3 projects depend on', projectKind: 'c3l' },
+];
+
+/** c3c init template of each project kind */
+const INIT_TEMPLATES: Record<Exclude<ProjectKind, 'c3l'>, string> = {
+    'executable': 'exe',
+    'static-lib': 'static-lib',
+    'dynamic-lib': 'dynamic-lib',
+};
+
+/** Module names are lowercase identifiers */
+const NAME_REGEX = /^[a-z][a-z0-9_]*$/;
+
+/** Folder holding test sources */
+const TEST_FOLDER = 'test';
+
+/**
+ * Ask for the name, type, target platform and tests of a new project and create it with `c3c init`,
+ * or from built-in templates when c3c can not be run. New libraries only offer the library types.
+ */
+export async function newProject(libraryOnly = false): Promise<void> {
+    const options = await runWizard(libraryOnly);
+
+    if (!options) {
+        return;
+    }
+
+    const selected = await vscode.window.showOpenDialog({
+        title: `Create ${options.name} in`,
+        defaultUri: vscode.workspace.workspaceFolders?.[0]?.uri,
+        canSelectFiles: false,
+        canSelectFolders: true,
+        canSelectMany: false,
+        openLabel: 'Create Here',
+    });
+
+    if (!selected || selected.length === 0) {
+        return;
+    }
+
+    const parent = selected[0].fsPath;
+    const directory = path.join(parent, options.kind === 'c3l' ? options.name + C3_LIBRARY_EXTENSION : options.name);
+
+    if (fs.existsSync(directory)) {
+        errorAndShow(`${directory} already exists`);
+        return;
+    }
+
+    try {
+        const created = await vscode.window.withProgress(
+            { location: vscode.ProgressLocation.Notification, title: `Creating ${options.name}` },
+            () => createProject(parent, directory, options)
+        );
+
+        if (created) {
+            await openProject(directory, options);
+        }
+    } catch (err) {
+        errorAndShow(`Failed to create ${options.name}`, err);
+    }
+}
+
+/**
+ * Collect the options with a multi-step quick pick. Returns undefined when cancelled.
+ */
+async function runWizard(libraryOnly: boolean): Promise<ScaffoldOptions | undefined> {
+    const title = libraryOnly ? 'New C3 Library' : 'New C3 Project';
+    const kindItems = KIND_ITEMS.filter(item => !libraryOnly || item.projectKind !== 'executable');
+    const options: ScaffoldOptions = { name: '', kind: kindItems[0].projectKind, target: undefined, tests: !libraryOnly };
+    let targets: string[] | undefined;
+
+    const steps: ((step: number, totalSteps: number) => Promise<StepResult>)[] = [
+        async (step, totalSteps) => {
+            const name = await showInputStep(title, step, totalSteps, options.name, 'Name of the project, also used as its module name', value =>
+                NAME_REGEX.test(value) ? undefined : 'Use lowercase letters, digits and underscores, starting with a letter');
+            return applyStep(name, value => options.name = value);
+        },
+        async (step, totalSteps) => {
+            const picked = await showPickStep(title, step, totalSteps, kindItems, item => item.projectKind === options.kind);
+            return applyStep(picked, item => options.kind = item.projectKind);
+        },
+        async (step, totalSteps) => {
+            targets ??= await listTargets();
+            const items = [
+                { label: 'Host Platform', description: 'The platform c3c runs on', target: undefined as string | undefined },
+                ...targets.map(target => ({ label: target, description: '', target: target as string | undefined })),
+            ];
+            const picked = await showPickStep(title, step, totalSteps, items, item => item.target === options.target);
+            return applyStep(picked, item => options.target = item.target);
+        },
+        async (step, totalSteps) => {
+            const items = [
+                { label: 'Add a test folder', description: `${TEST_FOLDER}/ with an example @test function`, tests: true },
+                { label: 'No tests', description: '', tests: false },
+            ];
+            const picked = await showPickStep(title, step, totalSteps, items, item => item.tests === options.tests);
+            return applyStep(picked, item => options.tests = item.tests);
+        },
+    ];
+
+    for (let index = 0; index < steps.length;) {
+        // .c3l libraries have no test sources, the last step is skipped for them
+        const totalSteps = options.kind === 'c3l' ? steps.length - 1 : steps.length;
+
+        if (index >= totalSteps) {
+            break;
+        }
+
+        const result = await steps[index](index + 1, totalSteps);
+
+        if (result === BACK) {
+            index = Math.max(index - 1, 0);
+        } else if (!result) {
+            return undefined;
+        } else {
+            index++;
+        }
+    }
+
+    if (options.kind === 'c3l') {
+        options.tests = false;
+    }
+
+    return options;
+}
+
+function applyStep<T>(value: T | typeof BACK | undefined, apply: (value: T) => void): StepResult {
+    if (value === undefined || value === BACK) {
+        return value === BACK ? BACK : false;
+    }
+
+    apply(value);
+    return true;
+}
+
+function showInputStep(
+    title: string,
+    step: number,
+    totalSteps: number,
+    value: string,
+    prompt: string,
+    validate: (value: string) => string | undefined
+): Promise<string | typeof BACK | undefined> {
+    return new Promise(resolve => {
+        const input = vscode.window.createInputBox();
+        input.title = title;
+        input.step = step;
+        input.totalSteps = totalSteps;
+        input.value = value;
+        input.prompt = prompt;
+        input.buttons = step > 1 ? [vscode.QuickInputButtons.Back] : [];
+
+        const finish = (result: string | typeof BACK | undefined) => {
+            resolve(result);
+            input.dispose();
+        };
+
+        input.onDidChangeValue(text => input.validationMessage = text ? validate(text) : undefined);
+        input.onDidTriggerButton(() => finish(BACK));
+        input.onDidAccept(() => {
+            const message = validate(input.value);
+
+            if (message) {
+                input.validationMessage = message;
+            } else {
+                finish(input.value);
+            }
+        });
+        input.onDidHide(() => finish(undefined));
+        input.show();
+    });
+}
+
+function showPickStep<T extends vscode.QuickPickItem>(
+    title: string,
+    step: number,
+    totalSteps: number,
+    items: T[],
+    isActive: (item: T) => boolean
+): Promise<T | typeof BACK | undefined> {
+    return new Promise(resolve => {
+        const pick = vscode.window.createQuickPick<T>();
+        pick.title = title;
+        pick.step = step;
+        pick.totalSteps = totalSteps;
+        pick.items = items;
+        pick.activeItems = items.filter(isActive);
+        pick.buttons = step > 1 ? [vscode.QuickInputButtons.Back] : [];
+
+        const finish = (result: T | typeof BACK | undefined) => {
+            resolve(result);
+            pick.dispose();
+        };
+
+        pick.onDidTriggerButton(() => finish(BACK));
+        pick.onDidAccept(() => finish(pick.selectedItems[0]));
+        pick.onDidHide(() => finish(undefined));
+        pick.show();
+    });
+}
+
+/**
+ * Create the project with c3c, falling back to the built-in templates when c3c is missing.
+ * Returns false if c3c failed.
+ */
+async function createProject(parent: string, directory: string, options: ScaffoldOptions): Promise<boolean> {
+    const args = options.kind === 'c3l'
+        ? [C3C_COMMANDS.INIT_LIB, options.name]
+        : [C3C_COMMANDS.INIT, options.name, C3C_FLAGS.TEMPLATE, INIT_TEMPLATES[options.kind]];
+
+    const result = await runCompiler(args, parent);
+
+    // A null exit code means c3c could not be started
+    if (result.exitCode === null) {
+        info('c3c is not available, creating the project from built-in templates');
+        await writeTemplate(directory, options);
+    } else if (result.exitCode !== 0 || !fs.existsSync(directory)) {
+        error(result.output);
+        errorAndShow(`c3c ${args[0]} failed for ${options.name}, see the output for details`);
+        return false;
+    }
+
+    await applyOptions(directory, options);
+    info(`Created ${options.kind} ${options.name} at ${directory}`);
+    return true;
+}
+
+/**
+ * Set the target platform and add or remove the test folder in what c3c or the templates created.
+ */
+async function applyOptions(directory: string, options: ScaffoldOptions): Promise<void> {
+    if (options.kind === 'c3l') {
+        const manifestPath = path.join(directory, MANIFEST_FILE_NAME);
+        // Libraries list the platforms they support
+        await editJson(manifestPath, ['targets', options.target ?? getHostTarget()], {}, true);
+        return;
+    }
+
+    const projectPath = path.join(directory, PROJECT_FILE_NAME);
+    const testDir = path.join(directory, TEST_FOLDER);
+
+    if (options.target) {
+        await editJson(projectPath, ['target'], options.target);
+    }
+
+    if (options.tests) {
+        await editJson(projectPath, ['test-sources'], [`${TEST_FOLDER}/**`], true);
+
+        if (!fs.existsSync(testDir) || !fs.readdirSync(testDir).some(entry => entry.endsWith('.c3'))) {
+            await writeFile(path.join(testDir, `${options.name}_test.c3`), getTestSource(options.name));
+        }
+    } else {
+        await editJson(projectPath, ['test-sources'], undefined);
+        await fs.promises.rm(testDir, { recursive: true, force: true });
+    }
+}
+
+/**
+ * Set a value in a JSON file, keeping its formatting. With `onlyIfMissing` an existing value is kept.
+ */
+async function editJson(file: string, jsonPath: jsonc.JSONPath, value: unknown, onlyIfMissing = false): Promise<void> {
+    const text = await fs.promises.readFile(file, 'utf-8');
+    const root = jsonc.parseTree(text);
+
+    if (onlyIfMissing && root && jsonc.findNodeAtLocation(root, jsonPath)) {
+        return;
+    }
+
+    const edits = jsonc.modify(text, jsonPath, value, { formattingOptions: { insertSpaces: true, tabSize: 2 } });
+    await fs.promises.writeFile(file, jsonc.applyEdits(text, edits));
+}
+
+/**
+ * Write a minimal project like `c3c init` would.
+ */
+async function writeTemplate(directory: string, options: ScaffoldOptions): Promise<void> {
+    const { name, kind } = options;
+
+    if (kind === 'c3l') {
+        await writeFile(path.join(directory, MANIFEST_FILE_NAME), JSON.stringify({
+            provides: name,
+            sources: ['src/**'],
+            targets: {},
+        }, null, 2) + '\n');
+        await writeFile(path.join(directory, 'src', `${name}.c3`), getLibrarySource(name));
+        return;
+    }
+
+    await writeFile(path.join(directory, PROJECT_FILE_NAME), JSON.stringify({
+        version: '0.1.0',
+        authors: [],
+        sources: ['src/**'],
+        'test-sources': [`${TEST_FOLDER}/**`],
+        output: 'build',
+        targets: {
+            [name]: { type: kind },
+        },
+    }, null, 2) + '\n');
+
+    await fs.promises.mkdir(path.join(directory, TEST_FOLDER), { recursive: true });
+
+    if (kind === 'executable') {
+        await writeFile(path.join(directory, 'src', 'main.c3'), getMainSource(name));
+    } else {
+        await writeFile(path.join(directory, 'src', `${name}.c3`), getLibrarySource(name));
+    }
+}
+
+/**
+ * Open the project file and the main source file, and offer to open the folder if it is outside the workspace.
+ */
+async function openProject(directory: string, options: ScaffoldOptions): Promise<void> {
+    const projectFile = path.join(directory, options.kind === 'c3l' ? MANIFEST_FILE_NAME : PROJECT_FILE_NAME);
+    const mainFile = findMainFile(directory, options.name);
+
+    await vscode.window.showTextDocument(vscode.Uri.file(projectFile), { preview: false });
+
+    if (mainFile) {
+        await vscode.window.showTextDocument(vscode.Uri.file(mainFile), { preview: false });
+    }
+
+    const uri = vscode.Uri.file(directory);
+
+    if (vscode.workspace.getWorkspaceFolder(uri)) {
+        return;
+    }
+
+    const choice = await vscode.window.showInformationMessage(
+        `Created ${options.name}. Open its folder?`,
+        'Open Folder',
+        'Add to Workspace'
+    );
+
+    if (choice === 'Open Folder') {
+        await vscode.commands.executeCommand('vscode.openFolder', uri);
+    } else if (choice === 'Add to Workspace') {
+        vscode.workspace.updateWorkspaceFolders(vscode.workspace.workspaceFolders?.length ?? 0, 0, { uri });
+    }
+}
+
+/**
+ * `src/main.c3` for executables, otherwise the file named after the project or the first source file.
+ */
+function findMainFile(directory: string, name: string): string | undefined {
+    const candidates = [
+        path.join(directory, 'src', 'main.c3'),
+        path.join(directory, 'src', `${name}.c3`),
+        path.join(directory, `${name}.c3`),
+        path.join(directory, `${name}.c3i`),
+    ];
+
+    const found = candidates.find(file => fs.existsSync(file));
+
+    if (found) {
+        return found;
+    }
+
+    for (const dir of [path.join(directory, 'src'), directory]) {
+        const file = fs.existsSync(dir) ? fs.readdirSync(dir).find(entry => /\.c3i?$/.test(entry)) : undefined;
+
+        if (file) {
+            return path.join(dir, file);
+        }
+    }
+
+    return undefined;
+}
+
+async function writeFile(file: string, content: string): Promise<void> {
+    await fs.promises.mkdir(path.dirname(file), { recursive: true });
+    await fs.promises.writeFile(file, content);
+}
+
+/**
+ * c3c target name of this machine, e.g. `linux-x64` or `macos-aarch64`.
+ */
+function getHostTarget(): string {
+    const platforms: Record<string, string> = { darwin: 'macos', win32: 'windows' };
+    const archs: Record<string, string> = { arm64: 'aarch64' };
+    return `${platforms[os.platform()] ?? os.platform()}-${archs[os.arch()] ?? os.arch()}`;
+}
+
+function getMainSource(name: string): string {
+    return `module ${name};
+import std::io;
+
+fn void main()
+{
+\tio::printn("Hello, World!");
+}
+`;
+}
+
+function getLibrarySource(name: string): string {
+    return `module ${name};
+
+fn int add(int a, int b)
+{
+\treturn a + b;
+}
+`;
+}
+
+function getTestSource(name: string): string {
+    return `module ${name}_test;
+
+fn void example() @test
+{
+\tassert(1 + 1 == 2);
+}
+`;
+}
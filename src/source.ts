@@ -0,0 +1,143 @@
+import * as vscode from 'vscode';
+import { blankComments } from './text';
+
+/**
+ * A function declaration found in C3 source
+ */
+export interface SourceFunction {
+    /** Function name, including the type for methods (e.g. `Foo.bar`) */
+    name: string;
+    /** Module path the function is declared in */
+    module: string;
+    /** Attributes on the function, including the ones inherited from the module section (without `@`) */
+    attributes: string[];
+    /** Range of the function name */
+    range: vscode.Range;
+    /** Range from `fn` up to the end of the function body (or declaration) */
+    fullRange: vscode.Range;
+}
+
+const MODULE_REGEX = /\bmodule\s+([A-Za-z_][\w]*(?:::[A-Za-z_][\w]*)*)([^;]*);/y;
+const ATTRIBUTE_REGEX = /@([A-Za-z_]\w*)/g;
+const NAME_REGEX = /([A-Za-z_][\w]*(?:\.[A-Za-z_][\w]*)?)\s*$/;
+
+/**
+ * Find all function declarations in a C3 source text.
+ * This is a lightweight scanner, not a parser, and is meant for features like tests and CodeLens.
+ */
+export function findFunctions(document: vscode.TextDocument | string): SourceFunction[] {
+    const original = typeof document === 'string' ? document : document.getText();
+    const text = blankComments(original);
+    const functions: SourceFunction[] = [];
+    const lineStarts = getLineStarts(text);
+    const positionAt = (offset: number) => offsetToPosition(lineStarts, offset);
+
+    let module = '';
+    let moduleAttributes: string[] = [];
+    const tokenRegex = /\b(module|fn)\b/g;
+    let token: RegExpExecArray | null;
+
+    while ((token = tokenRegex.exec(text)) !== null) {
+        if (token[1] === 'module') {
+            MODULE_REGEX.lastIndex = token.index;
+            const match = MODULE_REGEX.exec(text);
+
+            if (match) {
+                module = match[1];
+                moduleAttributes = [...match[2].matchAll(ATTRIBUTE_REGEX)].map(m => m[1]);
+                tokenRegex.lastIndex = MODULE_REGEX.lastIndex;
+            }
+            continue;
+        }
+
+        const openParen = text.indexOf('(', token.index);
+        if (openParen < 0) {
+            break;
+        }
+
+        // A declaration has a return type and a name, function types and lambdas only have one or neither
+        const header = text.slice(token.index + 2, openParen);
+        const nameMatch = NAME_REGEX.exec(header);
+        const closeParen = findClosing(text, openParen, '(', ')');
+        if (!nameMatch || !/\S\s+\S/.test(header.trim()) || closeParen < 0) {
+            continue;
+        }
+
+        // Attributes sit between the parameter list and the body
+        const bodyStart = findFirstOf(text, closeParen, ['{', ';', '=>']);
+        const attributes = [...text.slice(closeParen, bodyStart < 0 ? undefined : bodyStart).matchAll(ATTRIBUTE_REGEX)]
+            .map(m => m[1]);
+
+        let end = bodyStart < 0 ? text.length : bodyStart;
+        if (bodyStart >= 0 && text[bodyStart] === '{') {
+            const closeBrace = findClosing(text, bodyStart, '{', '}');
+            end = closeBrace < 0 ? text.length : closeBrace + 1;
+        } else if (bodyStart >= 0 && text[bodyStart] === '=') {
+            const semicolon = text.indexOf(';', bodyStart);
+            end = semicolon < 0 ? text.length : semicolon + 1;
+        }
+
+        const nameStart = openParen - nameMatch[0].length;
+        functions.push({
+            name: nameMatch[1],
+            module,
+            attributes: [...new Set([...moduleAttributes, ...attributes])],
+            range: new vscode.Range(positionAt(nameStart), positionAt(nameStart + nameMatch[1].length)),
+            fullRange: new vscode.Range(positionAt(token.index), positionAt(end)),
+        });
+
+        tokenRegex.lastIndex = end;
+    }
+
+    return functions;
+}
+
+/**
+ * Find the offset of the bracket closing the one at `start`.
+ */
+function findClosing(text: string, start: number, open: string, close: string): number {
+    let depth = 0;
+
+    for (let i = start; i < text.length; i++) {
+        if (text[i] === open) {
+            depth++;
+        } else if (text[i] === close && --depth === 0) {
+            return i;
+        }
+    }
+
+    return -1;
+}
+
+function findFirstOf(text: string, start: number, needles: string[]): number {
+    const offsets = needles.map(n => text.indexOf(n, start)).filter(i => i >= 0);
+    return offsets.length > 0 ? Math.min(...offsets) : -1;
+}
+
+function getLineStarts(text: string): number[] {
+    const starts = [0];
+
+    for (let i = 0; i < text.length; i++) {
+        if (text[i] === '\n') {
+            starts.push(i + 1);
+        }
+    }
+
+    return starts;
+}
+
+function offsetToPosition(lineStarts: number[], offset: number): vscode.Position {
+    let low = 0;
+    let high = lineStarts.length - 1;
+
+    while (low < high) {
+        const mid = Math.ceil((low + high) / 2);
+        if (lineStarts[mid] <= offset) {
+            low = mid;
+        } else {
+            high = mid - 1;
+        }
+    }
+
+    return new vscode.Position(low, offset - lineStarts[low]);
+}
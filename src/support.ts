@@ -0,0 +1,184 @@
+import * as vscode from 'vscode';
+import * as cp from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { getActiveFolder } from './lsp';
+import { getC3Config, getFMTConfig, getLogConfig, getLSPConfig, getToolchainConfig } from './config';
+import { errorAndShow, flushLogFile, getLogFiles, getRecentLogLines, info, showOutput } from './logger';
+import { C3C_FLAGS, FMT_FLAGS, LSP_FLAGS, SUPPORT_BUNDLE_MAX_LOG_SIZE, TOOL_VERSION_TIMEOUT } from './constants';
+import { getC3CPath } from './compiler';
+import { ZipEntry, createZip } from './zip';
+import { redact } from './text';
+
+/**
+ * Show version information about installed tools.
+ */
+export async function showVersionInfo(): Promise<void> {
+    info(['\n=== C3 Extension Info ===', ...getVersionLines(true)].join('\n'));
+    showOutput();
+}
+
+/**
+ * Zip the extension and LSP logs, tool versions and the effective settings into a file the user can attach to a bug report.
+ * Paths under the home folder, the user name and URL credentials are redacted. The LSP traffic log is left out.
+ */
+export async function createSupportBundle(context: vscode.ExtensionContext): Promise<void> {
+    const date = new Date().toISOString().slice(0, 10);
+    const target = await vscode.window.showSaveDialog({
+        title: 'Save C3 Support Bundle',
+        defaultUri: vscode.Uri.file(path.join(os.homedir(), `c3-support-${date}.zip`)),
+        filters: { 'Zip Archives': ['zip'] },
+    });
+
+    if (!target) {
+        return;
+    }
+
+    try {
+        const entries: ZipEntry[] = [
+            { name: 'versions.txt', data: redact([...getEnvironmentLines(context), ...getVersionLines(false)].join('\n')) },
+            { name: 'config.json', data: redact(JSON.stringify(getEffectiveConfig(), null, 4)) },
+            ...await getExtensionLogs(),
+            ...getLSPLogs(),
+        ];
+
+        await fs.promises.writeFile(target.fsPath, createZip(entries));
+        info(`Support bundle saved to ${target.fsPath}`);
+
+        const choice = await vscode.window.showInformationMessage(`C3 support bundle saved to ${target.fsPath}`, 'Reveal');
+
+        if (choice === 'Reveal') {
+            await vscode.commands.executeCommand('revealFileInOS', target);
+        }
+    } catch (err) {
+        errorAndShow('Failed to create support bundle', err);
+    }
+}
+
+/**
+ * Describe the configured tools and their versions.
+ * Failing version commands are reported to the user only when `notify` is set.
+ */
+function getVersionLines(notify: boolean): string[] {
+    const folder = getActiveFolder();
+    const lspConfig = getLSPConfig(folder?.uri);
+    const formatConfig = getFMTConfig();
+    const lines: string[] = [];
+
+    // LSP info
+    lines.push(`\nLSP Path: ${lspConfig.path || 'Not configured'}`);
+    if (lspConfig.path) {
+        const lspVersion = getCommandVersion(lspConfig.path, [LSP_FLAGS.VERSION], notify);
+        lines.push(`LSP Version: ${lspVersion || 'Not found'}`);
+    }
+
+    // Compiler info, falls back to c3c in PATH
+    const c3cPath = getC3CPath(folder?.uri);
+    const c3cVersion = getCommandVersion(c3cPath, [C3C_FLAGS.VERSION], notify);
+    lines.push(`\nC3C Path: ${c3cPath}`);
+    lines.push(`C3C Version: ${c3cVersion || 'Not found'}`);
+    lines.push(`Stdlib Path: ${getC3Config(folder?.uri).stdlibPath || 'Not configured'}`);
+
+    // Formatter info
+    lines.push(`\nFormatter Path: ${formatConfig.path || 'Not configured'}`);
+    if (formatConfig.path) {
+        const formatterVersion = getCommandVersion(formatConfig.path, [FMT_FLAGS.VERSION], notify);
+        lines.push(`Formatter Version: ${formatterVersion || 'Not found'}`);
+    }
+
+    return lines;
+}
+
+function getEnvironmentLines(context: vscode.ExtensionContext): string[] {
+    return [
+        `Extension Version: ${context.extension.packageJSON.version}`,
+        `VS Code Version: ${vscode.version}`,
+        `OS: ${os.type()} ${os.release()} ${os.arch()}`,
+        `Remote: ${vscode.env.remoteName ?? 'none'}`,
+    ];
+}
+
+/**
+ * Effective settings of every workspace folder, resource scoped settings can differ between folders.
+ */
+function getEffectiveConfig(): Record<string, unknown> {
+    const folders = vscode.workspace.workspaceFolders ?? [];
+    const scopes = folders.length > 0 ? folders.map(folder => ({ name: folder.name, uri: folder.uri })) : [{ name: 'default', uri: undefined }];
+
+    return {
+        log: getLogConfig(),
+        format: getFMTConfig(),
+        toolchain: getToolchainConfig(),
+        folders: Object.fromEntries(scopes.map(({ name, uri }) => [name, { c3: getC3Config(uri), lsp: getLSPConfig(uri) }])),
+    };
+}
+
+/**
+ * Rotated log files if file logging is on, otherwise the recent lines kept in memory.
+ */
+async function getExtensionLogs(): Promise<ZipEntry[]> {
+    await flushLogFile();
+    const files = getLogFiles();
+
+    if (files.length === 0) {
+        return [{ name: 'logs/c3.log', data: redact(getRecentLogLines().join('\n')) }];
+    }
+
+    return files.map(file => ({ name: `logs/${path.basename(file)}`, data: redact(readTail(file)) }));
+}
+
+/**
+ * LSP logs written to `c3.lsp.log.path`, one per distinct path.
+ */
+function getLSPLogs(): ZipEntry[] {
+    const folders = vscode.workspace.workspaceFolders ?? [];
+    const logPaths = new Set((folders.length > 0 ? folders.map(folder => getLSPConfig(folder.uri)) : [getLSPConfig()])
+        .map(lspConfig => lspConfig.logPath)
+        .filter(logPath => logPath && fs.existsSync(logPath)));
+
+    return [...logPaths].map((logPath, index) => ({
+        name: `logs/lsp${index > 0 ? `.${index}` : ''}.log`,
+        data: redact(readTail(logPath)),
+    }));
+}
+
+/**
+ * Read at most `SUPPORT_BUNDLE_MAX_LOG_SIZE` bytes from the end of a file.
+ */
+function readTail(file: string): string {
+    const size = fs.statSync(file).size;
+    const length = Math.min(size, SUPPORT_BUNDLE_MAX_LOG_SIZE);
+    const buffer = Buffer.alloc(length);
+    const fd = fs.openSync(file, 'r');
+
+    try {
+        fs.readSync(fd, buffer, 0, length, size - length);
+    } finally {
+        fs.closeSync(fd);
+    }
+
+    return buffer.toString('utf8');
+}
+
+/**
+ * Try to get version string from a command.
+ */
+function getCommandVersion(command: string, args: string[], notify: boolean): string | null {
+    try {
+        const result = cp.spawnSync(command, args, {
+            encoding: 'utf-8',
+            timeout: TOOL_VERSION_TIMEOUT
+        });
+        if (result.status === 0) {
+            return result.stdout.trim();
+        }
+    } catch {
+        // Reported below
+    }
+
+    if (notify) {
+        errorAndShow(`Failed to execute command: ${command}`);
+    }
+    return null;
+}
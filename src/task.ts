@@ -0,0 +1,223 @@
+import * as vscode from 'vscode';
+import { C3C_COMMANDS, C3C_FLAGS, C3_TASK_TYPE } from './constants';
+import { findProjects, isRunnableTarget, Project } from './project';
+import { getC3CPath, runCompiler } from './compiler';
+import { publishCompilerOutput } from './diagnostics';
+import { getBuildProfile } from './profile';
+import { info } from './logger';
+
+type C3CCommand = typeof C3C_COMMANDS[keyof typeof C3C_COMMANDS];
+
+/**
+ * Task definition for `"type": "c3"` tasks.
+ *!Must match with taskDefinitions in package.json
+ */
+export interface C3TaskDefinition extends vscode.TaskDefinition {
+    command: C3CCommand;
+    target?: string;
+    optimization?: string;
+    platform?: string;
+    defines?: string[];
+    args?: string[];
+}
+
+/**
+ * Register the task provider for c3c project tasks.
+ */
+export function registerTaskProvider(context: vscode.ExtensionContext): void {
+    const provider = vscode.tasks.registerTaskProvider(C3_TASK_TYPE, {
+        provideTasks: provideTasks,
+        resolveTask: resolveTask,
+    });
+
+    context.subscriptions.push(provider);
+}
+
+/**
+ * Provide one build, run and test task per project target and a clean task per project.
+ */
+async function provideTasks(): Promise<vscode.Task[]> {
+    const projects = await findProjects();
+    const tasks: vscode.Task[] = [];
+
+    for (const project of projects) {
+        for (const target of project.targets) {
+            tasks.push(createTask({ type: C3_TASK_TYPE, command: C3C_COMMANDS.BUILD, target: target.name }, project));
+
+            if (isRunnableTarget(target)) {
+                tasks.push(createTask({ type: C3_TASK_TYPE, command: C3C_COMMANDS.RUN, target: target.name }, project));
+            }
+
+            tasks.push(createTask({ type: C3_TASK_TYPE, command: C3C_COMMANDS.TEST, target: target.name }, project));
+        }
+
+        // c3c clean removes the whole build directory, it does not take a target
+        tasks.push(createTask({ type: C3_TASK_TYPE, command: C3C_COMMANDS.CLEAN }, project));
+    }
+
+    info(`Provided ${tasks.length} c3c tasks for ${projects.length} projects`);
+    return tasks;
+}
+
+/**
+ * Resolve a task from tasks.json that only has a definition.
+ */
+async function resolveTask(task: vscode.Task): Promise<vscode.Task | undefined> {
+    const definition = task.definition as C3TaskDefinition;
+
+    if (!definition.command) {
+        return undefined;
+    }
+
+    const folder = task.scope && typeof task.scope === 'object' ? task.scope : undefined;
+    const projects = (await findProjects()).filter(p =>
+        !folder || p.workspaceFolder?.uri.toString() === folder.uri.toString());
+
+    // Prefer the project that actually declares the requested target
+    const project = projects.find(p => p.targets.some(t => t.name === definition.target)) ?? projects.at(0);
+
+    if (!project) {
+        return undefined;
+    }
+
+    return createTask(definition, project, task.name);
+}
+
+/**
+ * Create a task running c3c with the given definition inside the project directory.
+ */
+function createTask(definition: C3TaskDefinition, project: Project, name?: string): vscode.Task {
+    const taskName = name ?? [definition.command, definition.target].filter(Boolean).join(' ');
+    // Tasks without a platform build for the one picked in the build profile
+    const platform = definition.platform ?? getBuildProfile(project.workspaceFolder).platform;
+    const args = buildTaskArgs({ ...definition, platform });
+    const cwd = project.directory.fsPath;
+
+    // Diagnostics are collected from the output directly, so no problem matcher is needed
+    const task = new vscode.Task(
+        definition,
+        project.workspaceFolder ?? vscode.TaskScope.Workspace,
+        taskName,
+        C3_TASK_TYPE,
+        new vscode.CustomExecution(async () => createCompilerTerminal(args, cwd)),
+        []
+    );
+
+    task.group = getTaskGroup(definition.command);
+    return task;
+}
+
+/**
+ * Run c3c in a terminal as a one-off task, e.g. for the Run CodeLens.
+ */
+export async function runCompilerTask(name: string, args: string[], cwd: string): Promise<void> {
+    const task = new vscode.Task(
+        { type: C3_TASK_TYPE, command: args[0] },
+        vscode.workspace.getWorkspaceFolder(vscode.Uri.file(cwd)) ?? vscode.TaskScope.Workspace,
+        name,
+        C3_TASK_TYPE,
+        new vscode.CustomExecution(async () => createCompilerTerminal(args, cwd)),
+        []
+    );
+
+    task.presentationOptions = { reveal: vscode.TaskRevealKind.Always, clear: true };
+    await vscode.tasks.executeTask(task);
+}
+
+/**
+ * Create a terminal that runs c3c, shows its output and publishes the reported diagnostics.
+ * Typed input is echoed and sent to the program on Enter like a line-buffered terminal,
+ * Ctrl+D ends the input and Ctrl+C stops the process.
+ */
+function createCompilerTerminal(args: string[], cwd: string): vscode.Pseudoterminal {
+    const writeEmitter = new vscode.EventEmitter<string>();
+    const closeEmitter = new vscode.EventEmitter<number>();
+    const inputEmitter = new vscode.EventEmitter<string | null>();
+    const cancellation = new vscode.CancellationTokenSource();
+    let line = '';
+
+    // Terminals need CRLF line endings
+    const write = (text: string) => writeEmitter.fire(text.replace(/\r?\n/g, '\r\n'));
+
+    const handleInput = (data: string) => {
+        for (const char of data) {
+            if (char === '\x03') {
+                write('^C\n');
+                cancellation.cancel();
+            } else if (char === '\x04') {
+                inputEmitter.fire(line || null);
+                line = '';
+            } else if (char === '\r') {
+                write('\n');
+                inputEmitter.fire(`${line}\n`);
+                line = '';
+            } else if (char === '\x7f') {
+                if (line.length > 0) {
+                    line = line.slice(0, -1);
+                    writeEmitter.fire('\b \b');
+                }
+            } else if (char >= ' ') {
+                line += char;
+                writeEmitter.fire(char);
+            }
+        }
+    };
+
+    return {
+        onDidWrite: writeEmitter.event,
+        onDidClose: closeEmitter.event,
+        open: async () => {
+            write(`> ${getC3CPath(vscode.Uri.file(cwd))} ${args.join(' ')}\n\n`);
+
+            const result = await runCompiler(args, cwd, write, cancellation.token, inputEmitter.event);
+            publishCompilerOutput(result.output, cwd);
+
+            closeEmitter.fire(result.exitCode ?? 1);
+        },
+        close: () => cancellation.cancel(),
+        handleInput,
+    };
+}
+
+/**
+ * Build c3c command-line arguments from a task definition.
+ */
+export function buildTaskArgs(definition: C3TaskDefinition): string[] {
+    const args: string[] = [definition.command];
+
+    if (definition.target && definition.command !== C3C_COMMANDS.CLEAN) {
+        args.push(definition.target);
+    }
+
+    if (definition.optimization) {
+        args.push(`-${definition.optimization}`);
+    }
+
+    if (definition.platform) {
+        args.push(C3C_FLAGS.TARGET, definition.platform);
+    }
+
+    for (const define of definition.defines ?? []) {
+        args.push(C3C_FLAGS.DEFINE, define);
+    }
+
+    args.push(...(definition.args ?? []));
+
+    return args;
+}
+
+/**
+ * Map a c3c command to its task group.
+ */
+function getTaskGroup(command: C3CCommand): vscode.TaskGroup | undefined {
+    switch (command) {
+        case C3C_COMMANDS.BUILD:
+            return vscode.TaskGroup.Build;
+        case C3C_COMMANDS.TEST:
+            return vscode.TaskGroup.Test;
+        case C3C_COMMANDS.CLEAN:
+            return vscode.TaskGroup.Clean;
+        default:
+            return undefined;
+    }
+}
@@ -0,0 +1,94 @@
+import * as assert from 'node:assert/strict';
+import { afterEach, beforeEach, describe, it, mock } from 'node:test';
+import { updateKeywords } from '../build_syntax';
+
+const KEYWORDS = {
+    keyword: ['fn', 'inline'],
+    control_keyword: ['if', 'for'],
+    base_type: ['int'],
+    other: ['true'],
+    ct_keyword: ['sizeof'],
+    ct_control_keyword: ['if', 'endif'],
+    attribute: ['inline', 'test'],
+    builtin: [],
+    type_property: ['len'],
+};
+
+describe('updateKeywords', () => {
+    beforeEach(() => {
+        // The report is printed, keep the test output readable
+        for (const method of ['log', 'warn', 'error'] as const) {
+            mock.method(console, method, () => { });
+        }
+    });
+
+    afterEach(() => mock.restoreAll());
+
+    it('reports no change when c3c lists the same words', () => {
+        const listed = [
+            ['fn', 'inline', 'if', 'for', 'int', 'true', '$sizeof', '$if', '$endif'],
+            ['inline', 'test'],
+            [],
+            ['len'],
+        ];
+
+        const result = updateKeywords(KEYWORDS, 'c3c', listed);
+
+        assert.equal(result.changed, false);
+        assert.equal(result.compared, true);
+        assert.deepEqual(result.keywords, KEYWORDS);
+    });
+
+    it('removes missing words and sorts new compile-time keywords by their name', () => {
+        const listed = [
+            ['fn', 'if', 'for', 'int', 'true', '$sizeof', '$if', '$endif', '$endswitch', '$alignof'],
+            ['test', 'pure'],
+            ['LINE'],
+            ['len'],
+        ];
+
+        const result = updateKeywords(KEYWORDS, 'c3c', listed);
+
+        assert.equal(result.changed, true);
+        assert.deepEqual(result.keywords['keyword'], ['fn']);
+        assert.deepEqual(result.keywords['ct_keyword'], ['sizeof', 'alignof']);
+        assert.deepEqual(result.keywords['ct_control_keyword'], ['if', 'endif', 'endswitch']);
+        assert.deepEqual(result.keywords['attribute'], ['test', 'pure']);
+        assert.deepEqual(result.keywords['builtin'], ['LINE']);
+    });
+
+    it('reports plain words it can not classify as a change', () => {
+        const listed = [
+            ['fn', 'inline', 'if', 'for', 'int', 'true', 'lambda', '$sizeof', '$if', '$endif'],
+            ['inline', 'test'],
+            [],
+            ['len'],
+        ];
+
+        const result = updateKeywords(KEYWORDS, 'c3c', listed);
+
+        assert.equal(result.changed, true);
+        assert.equal(Object.values(result.keywords).some(words => words.includes('lambda')), false);
+    });
+
+    it('keeps lists c3c can not print', () => {
+        const listed = [
+            ['fn', 'inline', 'if', 'for', 'int', 'true', '$sizeof', '$if', '$endif'],
+            null,
+            null,
+            null,
+        ];
+
+        const result = updateKeywords(KEYWORDS, 'c3c', listed);
+
+        assert.equal(result.compared, true);
+        assert.deepEqual(result.keywords['attribute'], KEYWORDS.attribute);
+        assert.deepEqual(result.keywords['type_property'], KEYWORDS.type_property);
+    });
+
+    it('does not compare anything without the keyword list', () => {
+        const result = updateKeywords(KEYWORDS, 'c3c', [null, ['test'], [], []]);
+
+        assert.deepEqual(result, { keywords: KEYWORDS, changed: false, compared: false });
+    });
+});
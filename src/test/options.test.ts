@@ -0,0 +1,31 @@
+import * as assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { getServerProfileOptions } from '../lsp/options';
+
+describe('getServerProfileOptions', () => {
+    const wasm = { name: 'web', type: 'executable', platform: 'wasm32', features: ['NO_LIBC', 'WEB'] };
+
+    it('sends the platform and features of the picked project target', () => {
+        assert.deepEqual(getServerProfileOptions({ target: 'web', platform: undefined }, wasm), {
+            buildTarget: 'web',
+            platform: 'wasm32',
+            features: ['NO_LIBC', 'WEB'],
+        });
+    });
+
+    it('prefers the platform picked in the status bar', () => {
+        assert.deepEqual(getServerProfileOptions({ target: 'web', platform: 'elf-riscv32' }, wasm), {
+            buildTarget: 'web',
+            platform: 'elf-riscv32',
+            features: ['NO_LIBC', 'WEB'],
+        });
+    });
+
+    it('sends only the platform without a project target', () => {
+        assert.deepEqual(getServerProfileOptions({ target: undefined, platform: 'freestanding-x64' }, undefined), {
+            buildTarget: undefined,
+            platform: 'freestanding-x64',
+            features: [],
+        });
+    });
+});
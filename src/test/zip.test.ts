@@ -0,0 +1,36 @@
+import * as assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import decompress from 'decompress';
+import { createZip, crc32 } from '../zip';
+
+describe('crc32', () => {
+    it('matches the standard check value', () => {
+        assert.equal(crc32(Buffer.from('123456789')), 0xCBF43926);
+        assert.equal(crc32(Buffer.alloc(0)), 0);
+    });
+});
+
+describe('createZip', () => {
+    it('creates an archive other tools can extract', async () => {
+        const log = 'x'.repeat(10000);
+        const zip = createZip([
+            { name: 'versions.txt', data: 'c3c 0.7.1' },
+            { name: 'logs/c3.log', data: log },
+            { name: 'empty.txt', data: Buffer.alloc(0) },
+        ]);
+
+        const files = await decompress(zip);
+        const contents = Object.fromEntries(files.filter(file => file.type === 'file').map(file => [file.path, file.data.toString('utf8')]));
+
+        assert.deepEqual(contents, { 'versions.txt': 'c3c 0.7.1', 'logs/c3.log': log, 'empty.txt': '' });
+    });
+
+    it('ends with the central directory record', () => {
+        const zip = createZip([{ name: 'a.txt', data: 'a' }, { name: 'b.txt', data: 'b' }]);
+        const end = zip.subarray(zip.length - 22);
+
+        assert.equal(end.readUInt32LE(0), 0x06054B50);
+        assert.equal(end.readUInt16LE(10), 2);
+        assert.equal(zip.readUInt32LE(end.readUInt32LE(16)), 0x02014B50);
+    });
+});
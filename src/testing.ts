@@ -0,0 +1,275 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { C3C_COMMANDS, C3C_FLAGS, C3_LANGUAGE_ID, C3_SOURCE_GLOB, C3_TEST_CONTROLLER_ID } from './constants';
+import { findFunctions } from './source';
+import { Project, findProjectForFile, findProjects } from './project';
+import { runCompiler } from './compiler';
+import { publishCompilerOutput } from './diagnostics';
+import { info } from './logger';
+import { TestOutcome, parseTestOutput } from './text';
+
+/**
+ * A single c3c invocation that runs a group of tests
+ */
+interface TestInvocation {
+    cwd: string;
+    args: string[];
+    tests: vscode.TestItem[];
+}
+
+let controller: vscode.TestController | null = null;
+
+/** Tests found in each file, used to drop stale tests when a file changes */
+const testsByFile = new Map<string, vscode.TestItem[]>();
+
+/** Qualified name (`module::test`) of each test, the `--test-filter` value. Module items filter by their ID */
+const testNames = new WeakMap<vscode.TestItem, string>();
+
+/**
+ * Register the test controller that discovers and runs `@test` functions.
+ */
+export function registerTestController(context: vscode.ExtensionContext): void {
+    controller = vscode.tests.createTestController(C3_TEST_CONTROLLER_ID, 'C3 Tests');
+
+    controller.resolveHandler = async (item) => {
+        if (!item) {
+            await discoverAllTests();
+        }
+    };
+
+    controller.createRunProfile('Run', vscode.TestRunProfileKind.Run, runTests, true);
+
+    const watcher = vscode.workspace.createFileSystemWatcher(C3_SOURCE_GLOB);
+    watcher.onDidCreate(uri => updateTestsFromFile(uri));
+    watcher.onDidChange(uri => updateTestsFromFile(uri));
+    watcher.onDidDelete(uri => updateTests(uri, ''));
+
+    // Keep the tree in sync with unsaved edits too
+    const changeListener = vscode.workspace.onDidChangeTextDocument(event => {
+        if (event.document.languageId === C3_LANGUAGE_ID && event.document.uri.scheme === 'file') {
+            updateTests(event.document.uri, event.document.getText());
+        }
+    });
+
+    context.subscriptions.push(controller, watcher, changeListener);
+}
+
+/**
+ * Scan every C3 file in the workspace for tests.
+ */
+async function discoverAllTests(): Promise<void> {
+    const files = await vscode.workspace.findFiles(C3_SOURCE_GLOB, '**/{build,.git}/**');
+
+    for (const file of files) {
+        await updateTestsFromFile(file);
+    }
+
+    info(`Discovered tests in ${testsByFile.size} files`);
+}
+
+async function updateTestsFromFile(uri: vscode.Uri): Promise<void> {
+    try {
+        const text = new TextDecoder().decode(await vscode.workspace.fs.readFile(uri));
+        updateTests(uri, text);
+    } catch {
+        updateTests(uri, '');
+    }
+}
+
+/**
+ * Replace the tests of a file with the ones found in `text`. Tests are grouped by module.
+ */
+function updateTests(uri: vscode.Uri, text: string): void {
+    if (!controller) {
+        return;
+    }
+
+    const key = uri.toString();
+
+    // Remove the tests this file contributed before
+    for (const item of testsByFile.get(key) ?? []) {
+        const moduleItem = item.parent;
+        moduleItem?.children.delete(item.id);
+
+        if (moduleItem && moduleItem.children.size === 0) {
+            controller.items.delete(moduleItem.id);
+        }
+    }
+
+    const tests = findFunctions(text).filter(fn => fn.attributes.includes('test'));
+    const items: vscode.TestItem[] = [];
+
+    for (const test of tests) {
+        const module = test.module || path.parse(uri.fsPath).name;
+
+        let moduleItem = controller.items.get(module);
+        if (!moduleItem) {
+            moduleItem = controller.createTestItem(module, module);
+            controller.items.add(moduleItem);
+        }
+
+        // Files may declare tests with the same module and name, the file keeps their IDs apart
+        const name = `${module}::${test.name}`;
+        const item = controller.createTestItem(`${key}#${name}`, test.name, uri);
+        item.range = test.range;
+        moduleItem.children.add(item);
+        testNames.set(item, name);
+        items.push(item);
+    }
+
+    if (items.length > 0) {
+        testsByFile.set(key, items);
+    } else {
+        testsByFile.delete(key);
+    }
+}
+
+function getTestFilter(item: vscode.TestItem): string {
+    return testNames.get(item) ?? item.id;
+}
+
+/**
+ * Run handler for the test controller. Running a module or test passes its name as filter to c3c.
+ */
+async function runTests(request: vscode.TestRunRequest, token: vscode.CancellationToken): Promise<void> {
+    if (!controller) {
+        return;
+    }
+
+    const run = controller.createTestRun(request);
+    const excluded = new Set((request.exclude ?? []).map(item => item.id));
+
+    // Without an include list everything runs, without a filter
+    const roots = request.include
+        ? request.include.map(item => ({ filter: getTestFilter(item) as string | undefined, item }))
+        : [...iterateItems(controller.items)].map(item => ({ filter: undefined, item }));
+
+    const invocations = new Map<string, TestInvocation>();
+    const projects = await findProjects();
+
+    for (const { filter, item } of roots) {
+        for (const test of getLeaves(item)) {
+            if (excluded.has(test.id) || !test.uri) {
+                continue;
+            }
+
+            const invocation = await getInvocation(test.uri, filter, invocations, projects);
+            invocation.tests.push(test);
+            run.enqueued(test);
+        }
+    }
+
+    for (const invocation of invocations.values()) {
+        if (token.isCancellationRequested) {
+            invocation.tests.forEach(test => run.skipped(test));
+            continue;
+        }
+
+        await runInvocation(run, invocation, token);
+    }
+
+    run.end();
+}
+
+/**
+ * Find or create the c3c invocation a test belongs to. Tests in a project run with `c3c test`,
+ * standalone files run with `c3c compile-test`.
+ */
+async function getInvocation(file: vscode.Uri, filter: string | undefined, invocations: Map<string, TestInvocation>, projects: Project[]): Promise<TestInvocation> {
+    const project = await findProjectForFile(file, projects);
+    const cwd = project ? project.directory.fsPath : path.dirname(file.fsPath);
+    const key = `${project ? project.uri.toString() : file.toString()}|${filter ?? ''}`;
+
+    let invocation = invocations.get(key);
+    if (!invocation) {
+        const args: string[] = project
+            ? [C3C_COMMANDS.TEST]
+            : [C3C_COMMANDS.COMPILE_TEST, file.fsPath];
+
+        if (filter) {
+            args.push(C3C_FLAGS.TEST_FILTER, filter);
+        }
+
+        invocation = { cwd, args, tests: [] };
+        invocations.set(key, invocation);
+    }
+
+    return invocation;
+}
+
+/**
+ * Run c3c for a group of tests and report the outcome of each one.
+ */
+async function runInvocation(run: vscode.TestRun, invocation: TestInvocation, token: vscode.CancellationToken): Promise<void> {
+    invocation.tests.forEach(test => run.started(test));
+
+    const startTime = Date.now();
+    const result = await runCompiler(
+        invocation.args,
+        invocation.cwd,
+        text => run.appendOutput(text.replace(/\r?\n/g, '\r\n')),
+        token
+    );
+    const duration = Date.now() - startTime;
+
+    publishCompilerOutput(result.output, invocation.cwd);
+
+    const outcomes = parseTestOutput(result.output, invocation.tests.map(getTestFilter));
+
+    for (const test of invocation.tests) {
+        const outcome = outcomes.get(getTestFilter(test));
+
+        if (!outcome) {
+            if (token.isCancellationRequested) {
+                run.skipped(test);
+            } else if (result.exitCode !== 0) {
+                // Nothing was reported for the test, so the build itself most likely failed
+                run.errored(test, new vscode.TestMessage(`c3c exited with code ${result.exitCode}, see the test output for details`));
+            } else {
+                run.skipped(test);
+            }
+            continue;
+        }
+
+        switch (outcome.status) {
+            case 'passed':
+                run.passed(test, duration);
+                break;
+            case 'skipped':
+                run.skipped(test);
+                break;
+            case 'failed':
+                run.failed(test, toTestMessage(test, outcome, invocation.cwd), duration);
+                break;
+        }
+    }
+}
+
+function toTestMessage(test: vscode.TestItem, outcome: TestOutcome, cwd: string): vscode.TestMessage {
+    const message = new vscode.TestMessage(outcome.output.join('\n').trim() || 'Test failed');
+
+    if (outcome.location) {
+        message.location = new vscode.Location(
+            vscode.Uri.file(path.resolve(cwd, outcome.location.file)),
+            new vscode.Position(Math.max(outcome.location.line - 1, 0), 0)
+        );
+    } else if (test.uri && test.range) {
+        message.location = new vscode.Location(test.uri, test.range);
+    }
+
+    return message;
+}
+
+function getLeaves(item: vscode.TestItem): vscode.TestItem[] {
+    if (item.children.size === 0) {
+        return [item];
+    }
+
+    return [...iterateItems(item.children)].flatMap(getLeaves);
+}
+
+function* iterateItems(collection: vscode.TestItemCollection): Generator<vscode.TestItem> {
+    const items: vscode.TestItem[] = [];
+    collection.forEach(item => items.push(item));
+    yield* items;
+}
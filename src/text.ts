@@ -0,0 +1,406 @@
+import * as os from 'os';
+import * as path from 'path';
+
+/**
+ * Text processing used by the extension's features. Nothing here imports vscode,
+ * so the unit tests run it with plain Node.
+ */
+
+/**
+ * A single message reported by c3c, e.g. `(/path/main.c3:9:5) Error: 'foo' could not be found`
+ */
+export interface CompilerMessage {
+    file: string;
+    /** Zero-based line */
+    line: number;
+    /** Zero-based column */
+    column: number;
+    /** Length of the caret marker shown above the location, 0 if there was none */
+    length: number;
+    severity: 'error' | 'warning' | 'note';
+    message: string;
+    /** Notes that directly follow an error or warning */
+    notes: CompilerMessage[];
+}
+
+/** Matches the location line of a c3c message. Must match with the $c3c problem pattern in package.json */
+const MESSAGE_REGEX = /^\((.+):(\d+):(\d+)\) (Error|Warning|Note): (.*)$/;
+
+/** Matches the caret line that underlines the offending code */
+const CARET_REGEX = /^\s*(\^+)\s*$/;
+
+/**
+ * Parse c3c output into messages. Notes are attached to the error or warning before them.
+ */
+export function parseCompilerOutput(output: string): CompilerMessage[] {
+    const messages: CompilerMessage[] = [];
+    let caretLength = 0;
+
+    for (const line of output.split(/\r?\n/)) {
+        const caret = CARET_REGEX.exec(line);
+        if (caret) {
+            caretLength = caret[1].length;
+            continue;
+        }
+
+        const match = MESSAGE_REGEX.exec(line);
+        if (!match) {
+            continue;
+        }
+
+        const message: CompilerMessage = {
+            file: match[1],
+            line: Math.max(parseInt(match[2]) - 1, 0),
+            column: Math.max(parseInt(match[3]) - 1, 0),
+            length: caretLength,
+            severity: match[4].toLowerCase() as CompilerMessage['severity'],
+            message: match[5],
+            notes: [],
+        };
+        caretLength = 0;
+
+        const previous = messages.at(-1);
+        if (message.severity === 'note' && previous) {
+            previous.notes.push(message);
+        } else {
+            messages.push(message);
+        }
+    }
+
+    return messages;
+}
+
+/**
+ * Outcome of a single test parsed from the test runner output
+ */
+export interface TestOutcome {
+    status: 'passed' | 'failed' | 'skipped';
+    /** Output printed while the test was running */
+    output: string[];
+    location?: { file: string; line: number };
+}
+
+/** Status marker the test runner prints when a test finishes, e.g. `[ok]` or `[FAIL]` */
+const STATUS_REGEX = /\[\s*(ok|pass(?:ed)?|fail(?:ed)?|skip(?:ped)?)\s*\]/i;
+
+/** Source location in failure messages and stack traces, e.g. `(/src/foo.c3:12)` */
+const LOCATION_REGEX = /\(\s*([^()]+?\.c3[it]?):(\d+)(?::\d+)?\s*\)/;
+
+/** Color codes of the test runner output */
+const ANSI_REGEX = /\x1b\[[0-9;]*m/g;
+
+/**
+ * Parse the output of the c3c test runner into outcomes by qualified test name (`module::test`).
+ * Each test starts with a line containing its name and ends with a status marker like `[ok]` or `[FAIL]`.
+ * Output in between (assert messages, panics, stack traces) belongs to the test. A test that never
+ * reports a status crashed the runner and counts as failed.
+ */
+export function parseTestOutput(output: string, names: string[]): Map<string, TestOutcome> {
+    const outcomes = new Map<string, TestOutcome>();
+
+    // Longest first, so `foo::test_ab` is not mistaken for `foo::test_a`
+    const matchers = [...names]
+        .sort((a, b) => b.length - a.length)
+        .map(name => ({ name, regex: new RegExp(`(?:^|[^\\w:])${escapeRegExp(name)}(?![\\w:])`) }));
+
+    // The test currently running, and the last one that finished (failure details may follow its status)
+    let current: string | null = null;
+    let last: TestOutcome | null = null;
+
+    for (const rawLine of output.split(/\r?\n/)) {
+        const line = rawLine.replace(ANSI_REGEX, '');
+        const started = matchers.find(m => m.regex.test(line));
+
+        // Stack traces mention the running test again, which does not start a new one
+        if (started && started.name !== current) {
+            if (current) {
+                outcomes.get(current)!.status = 'failed';
+            }
+
+            current = started.name;
+            last = null;
+            outcomes.set(current, { status: 'failed', output: [] });
+        } else if (line.trim()) {
+            const target = current ? outcomes.get(current)! : last?.status === 'failed' ? last : null;
+            target?.output.push(line);
+        }
+
+        const status = STATUS_REGEX.exec(line);
+        if (status && current) {
+            const word = status[1].toLowerCase();
+            last = outcomes.get(current)!;
+            last.status = word === 'ok' || word.startsWith('pass') ? 'passed' : word.startsWith('skip') ? 'skipped' : 'failed';
+            current = null;
+        }
+    }
+
+    for (const [name, outcome] of outcomes) {
+        // A stack trace points into the runtime first, the frame of the test itself is the better location
+        const locations = outcome.output.map(line => ({ line, match: LOCATION_REGEX.exec(line) })).filter(found => found.match !== null);
+        const location = (locations.find(found => found.line.includes(name)) ?? locations[0])?.match;
+
+        if (location) {
+            outcome.location = { file: location[1].trim(), line: parseInt(location[2]) };
+        }
+    }
+
+    return outcomes;
+}
+
+/**
+ * A block of changed lines, `[oldStart, oldEnd)` in the old lines is replaced by `[newStart, newEnd)` of the new ones
+ */
+export interface LineHunk {
+    oldStart: number;
+    oldEnd: number;
+    newStart: number;
+    newEnd: number;
+}
+
+/**
+ * Diff two line arrays with a longest common subsequence and return the changed blocks.
+ */
+export function diffLines(oldLines: string[], newLines: string[]): LineHunk[] {
+    const n = oldLines.length;
+    const m = newLines.length;
+
+    // lengths[i][j] = LCS length of oldLines[i..] and newLines[j..]
+    const lengths: Uint32Array[] = Array.from({ length: n + 1 }, () => new Uint32Array(m + 1));
+    for (let i = n - 1; i >= 0; i--) {
+        for (let j = m - 1; j >= 0; j--) {
+            lengths[i][j] = oldLines[i] === newLines[j]
+                ? lengths[i + 1][j + 1] + 1
+                : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+        }
+    }
+
+    const hunks: LineHunk[] = [];
+    let i = 0;
+    let j = 0;
+
+    while (i < n || j < m) {
+        if (i < n && j < m && oldLines[i] === newLines[j]) {
+            i++;
+            j++;
+            continue;
+        }
+
+        const hunk = { oldStart: i, oldEnd: i, newStart: j, newEnd: j };
+        while ((i < n || j < m) && !(i < n && j < m && oldLines[i] === newLines[j])) {
+            if (j >= m || (i < n && lengths[i + 1][j] >= lengths[i][j + 1])) {
+                i++;
+            } else {
+                j++;
+            }
+        }
+
+        hunk.oldEnd = i;
+        hunk.newEnd = j;
+        hunks.push(hunk);
+    }
+
+    return hunks;
+}
+
+/**
+ * Hide the home folder, the user name in paths and URL credentials or query strings.
+ */
+export function redact(text: string, home = os.homedir(), user = os.userInfo().username): string {
+
+    let result = text.replace(/\b(https?:\/\/)[^/\s:@]+(?::[^/\s@]*)?@/g, '$1<credentials>@')
+        .replace(/\b(https?:\/\/[^\s?#"]+)\?[^\s#"]*/g, '$1?<redacted>');
+
+    if (home) {
+        result = result.split(home).join('~');
+        // Paths in JSON have escaped backslashes on Windows
+        result = result.split(JSON.stringify(home).slice(1, -1)).join('~');
+    }
+
+    // The user name left in paths outside the home folder, e.g. /Users/Shared/<user>
+    if (user) {
+        result = result.replace(new RegExp(`(?<=[\\\\/])${escapeRegExp(user)}(?=[\\\\/"]|$)`, 'gm'), '<user>');
+    }
+
+    return result;
+}
+
+/**
+ * Split on whitespace, keeping quoted parts together.
+ */
+export function splitArgs(text: string): string[] {
+    return [...text.matchAll(/"([^"]*)"|'([^']*)'|(\S+)/g)].map(m => m[1] ?? m[2] ?? m[3]);
+}
+
+/**
+ * Source line an emitted line was generated from
+ */
+export interface SourceLocation {
+    file: string;
+    /** Zero-based line */
+    line: number;
+}
+
+/**
+ * Map IR lines to sources through their `!dbg` locations, resolving the file through the metadata scopes.
+ */
+export function mapLLVMLines(lines: string[]): (SourceLocation | undefined)[] {
+    const nodes = new Map<string, { kind: string; fields: string }>();
+
+    for (const line of lines) {
+        const match = /^(![0-9]+)\s*=\s*(?:distinct\s+)?!(DI\w+)\((.*)\)\s*$/.exec(line);
+
+        if (match) {
+            nodes.set(match[1], { kind: match[2], fields: match[3] });
+        }
+    }
+
+    const field = (fields: string, name: string) =>
+        new RegExp(`\\b${name}:\\s*("(?:[^"\\\\]|\\\\.)*"|[^,]+)`).exec(fields)?.[1].trim();
+
+    // Strings escape bytes as two hex digits, e.g. `\5C` for backslashes
+    const unquote = (text: string | undefined) =>
+        text?.replace(/^"|"$/g, '').replace(/\\([0-9A-Fa-f]{2})/g, (_, hex: string) => String.fromCharCode(parseInt(hex, 16)));
+
+    const files = new Map<string, string | undefined>();
+    const fileOf = (id: string, depth = 0): string | undefined => {
+        if (files.has(id)) {
+            return files.get(id);
+        }
+
+        const node = nodes.get(id);
+        let file: string | undefined;
+
+        if (node?.kind === 'DIFile') {
+            const name = unquote(field(node.fields, 'filename'));
+            const directory = unquote(field(node.fields, 'directory'));
+            file = name && directory && !path.isAbsolute(name) ? path.join(directory, name) : name;
+        } else if (node && depth < 100) {
+            const parent = field(node.fields, 'file') ?? field(node.fields, 'scope');
+            file = parent ? fileOf(parent, depth + 1) : undefined;
+        }
+
+        files.set(id, file);
+        return file;
+    };
+
+    return lines.map(line => {
+        const dbg = line.startsWith('!') ? null : /!dbg\s+(![0-9]+)/.exec(line);
+        const node = dbg && nodes.get(dbg[1]);
+        const sourceLine = node ? Number(field(node.fields, 'line')) : 0;
+        const file = dbg && sourceLine > 0 ? fileOf(dbg[1]) : undefined;
+
+        return file ? { file, line: sourceLine - 1 } : undefined;
+    });
+}
+
+/**
+ * Map assembly lines to sources through `.file` and `.loc` directives, a `.loc` applies to the instructions after it.
+ */
+export function mapAsmLines(lines: string[]): (SourceLocation | undefined)[] {
+    const files = new Map<string, string>();
+    let current: SourceLocation | undefined;
+
+    // Strings escape bytes as three octal digits, e.g. `\134` for backslashes
+    const unquote = (text: string) => text.replace(/\\([0-7]{3})/g, (_, octal: string) => String.fromCharCode(parseInt(octal, 8)));
+
+    return lines.map(line => {
+        const trimmed = line.trim();
+        const file = /^\.file\s+(\d+)\s+"((?:[^"\\]|\\.)*)"(?:\s+"((?:[^"\\]|\\.)*)")?/.exec(trimmed);
+
+        if (file) {
+            const name = unquote(file[3] ?? file[2]);
+            files.set(file[1], file[3] !== undefined && !path.isAbsolute(name) ? path.join(unquote(file[2]), name) : name);
+            return undefined;
+        }
+
+        const loc = /^\.loc\s+(\d+)\s+(\d+)/.exec(trimmed);
+
+        if (loc) {
+            const name = files.get(loc[1]);
+            current = name && Number(loc[2]) > 0 ? { file: name, line: Number(loc[2]) - 1 } : undefined;
+            return undefined;
+        }
+
+        if (trimmed.startsWith('.cfi_endproc')) {
+            current = undefined;
+        }
+
+        // Only instructions belong to a location, not directives, labels or comments
+        const isInstruction = trimmed !== '' && !/^[.#;@]|^\/\//.test(trimmed) && !/^[\w.$"]+:/.test(trimmed);
+        return isInstruction ? current : undefined;
+    });
+}
+
+/**
+ * Replace comments and string contents with spaces, keeping offsets and line breaks intact.
+ */
+export function blankComments(text: string): string {
+    const out = text.split('');
+    let i = 0;
+
+    const blank = (from: number, to: number) => {
+        for (let j = from; j < to && j < out.length; j++) {
+            if (out[j] !== '\n' && out[j] !== '\r') {
+                out[j] = ' ';
+            }
+        }
+    };
+
+    while (i < text.length) {
+        const two = text.slice(i, i + 2);
+
+        if (two === '//') {
+            const end = text.indexOf('\n', i);
+            blank(i, end < 0 ? text.length : end);
+            i = end < 0 ? text.length : end;
+        } else if (two === '/*' || two === '<*') {
+            const close = two === '/*' ? '*/' : '*>';
+            const end = text.indexOf(close, i + 2);
+            blank(i, end < 0 ? text.length : end + 2);
+            i = end < 0 ? text.length : end + 2;
+        } else if (text[i] === '"' || text[i] === '\'' || text[i] === '`') {
+            const quote = text[i];
+            let j = i + 1;
+            while (j < text.length && text[j] !== quote && text[j] !== '\n') {
+                j += quote !== '`' && text[j] === '\\' ? 2 : 1;
+            }
+            blank(i + 1, j);
+            i = j + 1;
+        } else {
+            i++;
+        }
+    }
+
+    return out.join('');
+}
+
+/**
+ * Words of the keyword set recorded for a language version, `1.0` also covers `1.0.x`.
+ */
+export function getUnavailableWords(sets: Record<string, string[]>, version: string): string[] {
+    const key = Object.keys(sets)
+        .filter(recorded => version === recorded || version.startsWith(`${recorded}.`))
+        .sort((a, b) => b.length - a.length)[0];
+
+    return key ? sets[key] : [];
+}
+
+/**
+ * Find the given keywords outside comments and strings, with the offset of each occurrence.
+ */
+export function findWords(text: string, words: string[]): { word: string; offset: number }[] {
+    if (words.length === 0) {
+        return [];
+    }
+
+    const alternatives = words.map(word => word.replace(/\$/g, '\\$')).join('|');
+
+    // Prefixes are part of the word, so `$if` does not match `if` and `foo.if` is not a keyword
+    const regex = new RegExp(`(?<![\\w$@.])(?:${alternatives})(?!\\w)`, 'g');
+
+    return [...blankComments(text).matchAll(regex)].map(match => ({ word: match[0], offset: match.index ?? 0 }));
+}
+
+function escapeRegExp(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
@@ -0,0 +1,351 @@
+import * as cp from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import * as conf from '../config';
+import {
+    C3C_DEFAULT_COMMAND,
+    C3C_EXECUTABLE_NAME,
+    C3C_FLAGS,
+    C3C_STDLIB_FOLDER,
+    FMT_EXECUTABLE_NAME,
+    FMT_FLAGS,
+    LSP_EXECUTABLE_NAME,
+    LSP_FLAGS,
+    TOOL_VERSION_TIMEOUT,
+} from '../constants';
+import * as log from '../logger';
+import { getInstalledToolchains } from './manager';
+
+/**
+ * Tools checked by the toolchain report
+ */
+export type ToolKind = 'c3c' | 'stdlib' | 'lsp' | 'fmt';
+
+/**
+ * Result of checking one tool
+ */
+export interface ToolStatus {
+    kind: ToolKind;
+    /** Setting holding the tool's path */
+    setting: string;
+    /** Configured path, unset when the setting is empty */
+    configured: string | undefined;
+    /** Path found on this machine, offered as a fix */
+    discovered: string | undefined;
+    /** Reported version of the tool in use */
+    version: string | undefined;
+    /** Why the tool in use is not usable, unset when it is fine */
+    problem: string | undefined;
+}
+
+const TOOL_NAMES: Record<ToolKind, string> = {
+    c3c: 'Compiler (c3c)',
+    stdlib: 'Standard library',
+    lsp: 'Language server (c3lsp)',
+    fmt: 'Formatter (c3fmt)',
+};
+
+/** Executable names tried for each tool, without `.exe` */
+const EXECUTABLE_NAMES: Record<Exclude<ToolKind, 'stdlib'>, string[]> = {
+    c3c: [C3C_EXECUTABLE_NAME],
+    lsp: [LSP_EXECUTABLE_NAME, 'c3-lsp'],
+    fmt: [FMT_EXECUTABLE_NAME],
+};
+
+/**
+ * Check the configured tool paths on startup and report problems once.
+ * Never throws, activation must not fail because of the check.
+ */
+export async function validateToolchainOnStartup(context: vscode.ExtensionContext): Promise<void> {
+    try {
+        const statuses = await checkToolchain(context);
+        const problems = statuses.filter(status => status.problem);
+
+        if (problems.length === 0) {
+            return;
+        }
+
+        for (const status of problems) {
+            log.warning(`${TOOL_NAMES[status.kind]}: ${status.problem}`);
+        }
+
+        const choice = await vscode.window.showWarningMessage(
+            problems.length === 1
+                ? `C3 toolchain: ${problems[0].problem}`
+                : `C3 toolchain: ${problems.length} problems found`,
+            'Show Report'
+        );
+
+        if (choice === 'Show Report') {
+            await showToolchainReport(context, statuses);
+        }
+    } catch (err) {
+        log.error('Toolchain check failed', err);
+    }
+}
+
+/**
+ * Show the state of every tool. Tools with a discovered path can be fixed by picking them.
+ */
+export async function showToolchainReport(context: vscode.ExtensionContext, statuses?: ToolStatus[]): Promise<void> {
+    statuses ??= await vscode.window.withProgress(
+        { location: vscode.ProgressLocation.Window, title: 'Checking C3 toolchain' },
+        () => checkToolchain(context)
+    );
+
+    const items = statuses.map(status => ({
+        label: `${getStatusIcon(status)} ${TOOL_NAMES[status.kind]}`,
+        description: [status.configured ?? 'not configured', status.version].filter(Boolean).join(' · '),
+        detail: [
+            status.problem,
+            canFix(status) ? `$(lightbulb) Use ${status.discovered}` : undefined,
+        ].filter(Boolean).join(' — ') || undefined,
+        status,
+    }));
+
+    const fixable = statuses.filter(canFix);
+
+    const picked = await vscode.window.showQuickPick(
+        [
+            ...items,
+            ...(fixable.length > 1 ? [{ label: '$(wrench) Apply all discovered paths', description: '', detail: undefined, status: undefined }] : []),
+        ],
+        {
+            title: 'C3 Toolchain',
+            placeHolder: fixable.length > 0 ? 'Pick a tool to use its discovered path' : 'No fixes available',
+            matchOnDescription: true,
+        }
+    );
+
+    if (!picked) {
+        return;
+    }
+
+    if (!picked.status) {
+        await applyFixes(fixable);
+    } else if (canFix(picked.status)) {
+        await applyFixes([picked.status]);
+    }
+}
+
+/**
+ * Validate the configured paths and search for the tools on this machine.
+ */
+export async function checkToolchain(context: vscode.ExtensionContext): Promise<ToolStatus[]> {
+    const c3Config = conf.getC3Config();
+    const lspConfig = conf.getLSPConfig();
+    const fmtConfig = conf.getFMTConfig();
+
+    const c3c = await checkExecutable('c3c', 'c3.c3c-path', c3Config.c3cPath, [C3C_FLAGS.VERSION], [
+        ...getInstalledToolchains(context).map(toolchain => path.dirname(toolchain.c3cPath)),
+    ]);
+
+    let c3cInUse = c3Config.c3cPath;
+
+    // An unset c3c-path falls back to c3c in PATH, which is fine if it is there
+    if (!c3cInUse) {
+        if (c3c.discovered && isInPath(c3c.discovered)) {
+            c3cInUse = c3c.discovered;
+            c3c.version = await getVersion(c3cInUse, [C3C_FLAGS.VERSION]);
+            c3c.discovered = undefined;
+        } else {
+            c3c.problem = `${C3C_DEFAULT_COMMAND} is not in PATH and c3.c3c-path is not set`;
+        }
+    }
+
+    // Without a working c3c the tools next to the discovered one are offered
+    const c3cDir = resolveC3CDir(c3c.problem ? c3c.discovered : c3cInUse);
+    const statuses = [c3c, checkStdlib(c3Config.stdlibPath, c3cDir)];
+
+    // Attached servers are not started from a local binary
+    if (lspConfig.enabled && lspConfig.transport === 'stdio') {
+        statuses.push(await checkExecutable('lsp', 'c3.lsp.path', lspConfig.path, [LSP_FLAGS.VERSION], c3cDir ? [c3cDir] : []));
+    }
+
+    if (fmtConfig.enabled) {
+        statuses.push(await checkExecutable('fmt', 'c3.format.path', fmtConfig.path, [FMT_FLAGS.VERSION], c3cDir ? [c3cDir] : []));
+    }
+
+    return statuses;
+}
+
+async function checkExecutable(
+    kind: Exclude<ToolKind, 'stdlib'>,
+    setting: string,
+    configured: string | undefined,
+    versionArgs: string[],
+    extraDirs: string[]
+): Promise<ToolStatus> {
+    const candidates = findExecutables(EXECUTABLE_NAMES[kind], extraDirs);
+    const status: ToolStatus = { kind, setting, configured, discovered: undefined, version: undefined, problem: undefined };
+
+    // Unset paths are handled by the install prompts, a discovered binary is still offered
+    if (configured && !fs.existsSync(configured)) {
+        status.problem = `${configured} does not exist`;
+    } else if (configured && !isExecutable(configured)) {
+        status.problem = `${configured} is not an executable file`;
+    } else if (configured) {
+        status.version = await getVersion(configured, versionArgs);
+        status.problem = status.version ? undefined : `${configured} did not report a version`;
+    }
+
+    // Only offer binaries that run, a broken install is not a fix
+    for (const candidate of candidates) {
+        if (candidate !== configured && await getVersion(candidate, versionArgs)) {
+            status.discovered = candidate;
+            break;
+        }
+    }
+
+    return status;
+}
+
+function checkStdlib(configured: string | undefined, c3cDir: string | undefined): ToolStatus {
+    const bundled = c3cDir ? path.join(c3cDir, ...C3C_STDLIB_FOLDER) : undefined;
+    const status: ToolStatus = { kind: 'stdlib', setting: 'c3.stdlib-path', configured, discovered: undefined, version: undefined, problem: undefined };
+
+    // c3c uses its bundled standard library when the setting is empty
+    if (configured && !isDirectory(configured)) {
+        status.problem = `${configured} is not a directory`;
+        status.discovered = bundled && isDirectory(bundled) ? bundled : undefined;
+    }
+
+    return status;
+}
+
+/**
+ * Executables with the given names in PATH, the extra folders and common install locations, in that order.
+ */
+function findExecutables(names: string[], extraDirs: string[]): string[] {
+    const dirs = [...getPathDirs(), ...extraDirs, ...getCommonInstallDirs()];
+    const suffixes = process.platform === 'win32' ? ['.exe', ''] : [''];
+    const found: string[] = [];
+
+    for (const dir of dirs) {
+        for (const name of names) {
+            for (const suffix of suffixes) {
+                const candidate = path.join(dir, name + suffix);
+
+                if (!found.includes(candidate) && isExecutable(candidate)) {
+                    found.push(candidate);
+                }
+            }
+        }
+    }
+
+    return found;
+}
+
+function getPathDirs(): string[] {
+    return (process.env.PATH ?? '').split(path.delimiter).filter(Boolean);
+}
+
+function isInPath(file: string): boolean {
+    return getPathDirs().some(dir => path.resolve(dir) === path.dirname(file));
+}
+
+/**
+ * Folders release archives and package managers usually put the tools in.
+ */
+function getCommonInstallDirs(): string[] {
+    const home = os.homedir();
+
+    if (process.platform === 'win32') {
+        const localAppData = process.env.LOCALAPPDATA ?? path.join(home, 'AppData', 'Local');
+        const programFiles = process.env.ProgramFiles ?? 'C:\\Program Files';
+        return [path.join(localAppData, 'c3'), path.join(programFiles, 'c3'), 'C:\\c3', path.join(home, 'c3')];
+    }
+
+    return [
+        path.join(home, '.local', 'bin'),
+        path.join(home, 'bin'),
+        path.join(home, 'c3'),
+        path.join(home, '.c3'),
+        '/usr/local/bin',
+        '/usr/local/c3',
+        '/opt/c3',
+        '/opt/homebrew/bin',
+        '/usr/bin',
+    ];
+}
+
+/**
+ * Release archives keep `lib/std` next to c3c, package managers link the binary from elsewhere.
+ */
+function resolveC3CDir(c3cPath: string | undefined): string | undefined {
+    if (!c3cPath || !path.isAbsolute(c3cPath)) {
+        return undefined;
+    }
+
+    try {
+        return path.dirname(fs.realpathSync(c3cPath));
+    } catch {
+        return undefined;
+    }
+}
+
+function isExecutable(file: string): boolean {
+    try {
+        if (!fs.statSync(file).isFile()) {
+            return false;
+        }
+
+        fs.accessSync(file, fs.constants.X_OK);
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+function isDirectory(dir: string): boolean {
+    try {
+        return fs.statSync(dir).isDirectory();
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * First line of the tool's version output, unset if it failed to run.
+ */
+function getVersion(command: string, args: string[]): Promise<string | undefined> {
+    return new Promise(resolve => {
+        cp.execFile(command, args, { timeout: TOOL_VERSION_TIMEOUT }, (err, stdout) => {
+            resolve(err ? undefined : stdout.trim().split(/\r?\n/)[0] || undefined);
+        });
+    });
+}
+
+function canFix(status: ToolStatus): boolean {
+    return status.discovered !== undefined && (status.problem !== undefined || !status.configured);
+}
+
+function getStatusIcon(status: ToolStatus): string {
+    if (status.problem) {
+        return '$(error)';
+    }
+
+    return status.configured || status.version ? '$(pass)' : '$(circle-outline)';
+}
+
+async function applyFixes(statuses: ToolStatus[]): Promise<void> {
+    const c3 = conf.getC3Config();
+    const c3cFix = statuses.find(status => status.kind === 'c3c')?.discovered;
+    const stdlibFix = statuses.find(status => status.kind === 'stdlib')?.discovered;
+
+    if (c3cFix || stdlibFix) {
+        await conf.updateC3Paths(c3cFix ?? c3.c3cPath, stdlibFix ?? c3.stdlibPath);
+    }
+
+    for (const status of statuses) {
+        if (status.kind === 'lsp') {
+            await conf.updateLSPPath(status.discovered);
+        } else if (status.kind === 'fmt') {
+            await conf.updateFMTPath(status.discovered);
+        }
+    }
+
+    log.infoAndShow(`Updated ${statuses.map(status => status.setting).join(', ')}`);
+}
@@ -0,0 +1,6 @@
+/**
+ * This barrel file re-exports the public API from submodules.
+ */
+
+export * from './manager';
+export { ToolStatus, checkToolchain, showToolchainReport, validateToolchainOnStartup } from './discovery';
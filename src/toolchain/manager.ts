@@ -0,0 +1,213 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import * as conf from '../config';
+import { downloadAndExtractArtifact } from '../utils';
+import { ReleaseChannel, ReleaseInfo, fetchReleases, getPlatformKey } from '../release';
+import { C3C_EXECUTABLE_NAME, C3C_INSTALL_FOLDER, C3C_STDLIB_FOLDER, TOOLCHAINS_STATE_KEY } from '../constants';
+import * as log from '../logger';
+
+/**
+ * A c3c version installed by the toolchain manager
+ */
+export interface InstalledToolchain {
+    /** Release name, e.g. `v0.7.5` or `latest-prerelease-tag` */
+    name: string;
+    version: string;
+    channel: ReleaseChannel;
+    c3cPath: string;
+    stdlibPath: string | undefined;
+    /** Install directory inside global storage */
+    directory: string;
+}
+
+/**
+ * Let the user pick a c3c release from the manifest and install it into global storage.
+ */
+export async function installCompiler(context: vscode.ExtensionContext): Promise<void> {
+    const manifestUrl = conf.getToolchainConfig().manifestUrl;
+    let releases: ReleaseInfo[];
+
+    try {
+        releases = await fetchReleases(manifestUrl);
+    } catch (err) {
+        log.errorAndShow(`Failed to fetch c3c releases from ${manifestUrl}`, err);
+        return;
+    }
+
+    const installed = getInstalledToolchains(context);
+    const platformKey = getPlatformKey();
+
+    const picked = await vscode.window.showQuickPick(
+        releases.map(release => ({
+            label: release.name,
+            description: [
+                release.channel !== 'stable' ? release.channel : '',
+                release.date ? new Date(release.date).toLocaleDateString() : '',
+                installed.some(t => t.name === release.name) ? 'installed' : '',
+            ].filter(Boolean).join(' · '),
+            detail: release.artifacts[platformKey] ? undefined : `Not available for ${platformKey}`,
+            release,
+        })),
+        { title: 'Install c3c version', matchOnDescription: true }
+    );
+
+    if (!picked) {
+        return;
+    }
+
+    const toolchain = await installRelease(context, picked.release);
+
+    if (!toolchain) {
+        return;
+    }
+
+    const choice = await vscode.window.showInformationMessage(
+        `c3c ${toolchain.name} installed. Use it for this workspace?`,
+        'Use',
+        'Later'
+    );
+
+    if (choice === 'Use') {
+        await activateToolchain(toolchain);
+    }
+}
+
+/**
+ * Let the user pick the c3c version used by this workspace.
+ */
+export async function selectCompiler(context: vscode.ExtensionContext): Promise<void> {
+    const installed = getInstalledToolchains(context);
+    const active = conf.getC3Config().c3cPath;
+    const installItem = { label: '$(cloud-download) Install another version...', toolchain: undefined };
+
+    const picked = await vscode.window.showQuickPick(
+        [
+            ...installed.map(toolchain => ({
+                label: toolchain.name,
+                description: [
+                    toolchain.channel !== 'stable' ? toolchain.channel : '',
+                    toolchain.c3cPath === active ? 'active' : '',
+                ].filter(Boolean).join(' · '),
+                detail: toolchain.c3cPath,
+                toolchain: toolchain as InstalledToolchain | undefined,
+            })),
+            installItem,
+        ],
+        { title: 'Select c3c version for this workspace' }
+    );
+
+    if (!picked) {
+        return;
+    }
+
+    if (!picked.toolchain) {
+        return installCompiler(context);
+    }
+
+    await activateToolchain(picked.toolchain);
+}
+
+/**
+ * Let the user pick an installed c3c version and delete it.
+ */
+export async function removeCompiler(context: vscode.ExtensionContext): Promise<void> {
+    const installed = getInstalledToolchains(context);
+
+    if (installed.length === 0) {
+        log.infoAndShow('No c3c versions are installed by the extension');
+        return;
+    }
+
+    const picked = await vscode.window.showQuickPick(
+        installed.map(toolchain => ({ label: toolchain.name, detail: toolchain.directory, toolchain })),
+        { title: 'Remove c3c version' }
+    );
+
+    if (!picked) {
+        return;
+    }
+
+    try {
+        await fs.promises.rm(picked.toolchain.directory, { recursive: true, force: true });
+    } catch (err) {
+        log.errorAndShow(`Failed to remove c3c ${picked.toolchain.name}`, err);
+        return;
+    }
+
+    await setInstalledToolchains(context, installed.filter(t => t.name !== picked.toolchain.name));
+
+    if (conf.getC3Config().c3cPath === picked.toolchain.c3cPath) {
+        log.warningAndShow(`c3c ${picked.toolchain.name} was removed but is still set as c3.c3c-path`);
+    } else {
+        log.info(`Removed c3c ${picked.toolchain.name}`);
+    }
+}
+
+/**
+ * Get the c3c versions installed by the extension.
+ */
+export function getInstalledToolchains(context: vscode.ExtensionContext): InstalledToolchain[] {
+    return context.globalState.get<InstalledToolchain[]>(TOOLCHAINS_STATE_KEY, [])
+        .filter(toolchain => fs.existsSync(toolchain.c3cPath));
+}
+
+async function setInstalledToolchains(context: vscode.ExtensionContext, toolchains: InstalledToolchain[]): Promise<void> {
+    await context.globalState.update(TOOLCHAINS_STATE_KEY, toolchains);
+}
+
+/**
+ * Download and extract a release into its own folder. The standard library is expected next to the binary.
+ */
+async function installRelease(context: vscode.ExtensionContext, release: ReleaseInfo): Promise<InstalledToolchain | null> {
+    const platformKey = getPlatformKey();
+    const artifact = release.artifacts[platformKey];
+
+    if (!artifact) {
+        log.errorAndShow(`c3c ${release.name} is not available for: ${platformKey}`);
+        return null;
+    }
+
+    const installDir = vscode.Uri.joinPath(
+        context.globalStorageUri,
+        C3C_INSTALL_FOLDER,
+        release.name.replace(/[^\w.-]/g, '_')
+    );
+
+    let c3cPath: string;
+
+    try {
+        c3cPath = await downloadAndExtractArtifact(`c3c ${release.name}`, installDir, artifact.url, {
+            executableName: C3C_EXECUTABLE_NAME,
+            sha256: artifact.sha256,
+            checksumsUrl: artifact.checksumsUrl,
+        });
+    } catch (err) {
+        log.errorAndShow(`Failed to install c3c ${release.name}`, err);
+        return null;
+    }
+
+    const stdlibPath = path.join(path.dirname(c3cPath), ...C3C_STDLIB_FOLDER);
+    const toolchain: InstalledToolchain = {
+        name: release.name,
+        version: release.version.version,
+        channel: release.channel,
+        c3cPath,
+        stdlibPath: fs.existsSync(stdlibPath) ? stdlibPath : undefined,
+        directory: installDir.fsPath,
+    };
+
+    const others = getInstalledToolchains(context).filter(t => t.name !== toolchain.name);
+    await setInstalledToolchains(context, [...others, toolchain]);
+
+    log.info(`c3c ${release.name} installed at: ${c3cPath}`);
+    return toolchain;
+}
+
+/**
+ * Point `c3.c3c-path` and `c3.stdlib-path` at a toolchain.
+ */
+async function activateToolchain(toolchain: InstalledToolchain): Promise<void> {
+    await conf.updateC3Paths(toolchain.c3cPath, toolchain.stdlibPath);
+    log.infoAndShow(`Using c3c ${toolchain.name}`);
+}
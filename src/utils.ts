@@ -1,19 +1,48 @@
 import * as path from 'path';
 import * as fs from 'fs';
+import * as crypto from 'crypto';
 import * as vscode from 'vscode';
 import axios, { AxiosProgressEvent } from 'axios';
 import decompress from 'decompress';
+import { warning } from './logger';
+
+/** Artifact URLs matching this are extracted, anything else is treated as the executable itself */
+const ARCHIVE_REGEX = /\.(zip|tar|tar\.gz|tgz|tar\.bz2|tar\.xz)$/i;
+
+/**
+ * Options for installing a downloaded artifact
+ */
+export interface ArtifactOptions {
+    /** Name of the executable in the archive (without `.exe`), otherwise the only file is used */
+    executableName?: string;
+    /** Expected SHA-256 of the download as hex string, the install fails if it does not match */
+    sha256?: string;
+    /** URL of a checksum file listing the download, used without `sha256`. The install fails if it does not list it */
+    checksumsUrl?: string;
+}
 
 /**
  * Download a zip/tar file from a URL, extract it, and return the path to the executable.
+ * The archive is extracted into a staging directory that replaces `installDir` only once
+ * everything succeeded, so a failed install never leaves a broken installation behind.
  */
-export async function downloadAndExtractArtifact(title: string, installDir: vscode.Uri, artifactUrl: string): Promise<string> {
+export async function downloadAndExtractArtifact(title: string, installDir: vscode.Uri, artifactUrl: string, options: ArtifactOptions = {}): Promise<string> {
     return await vscode.window.withProgress(
         {
             title: `Installing ${title}`,
             location: vscode.ProgressLocation.Notification,
         },
         async (progress) => {
+            const fileName = decodeURIComponent(path.basename(artifactUrl));
+
+            // A published checksum file has to list the download, otherwise it could be anything
+            let sha256 = options.sha256;
+
+            if (!sha256 && options.checksumsUrl) {
+                progress.report({ message: 'Fetching checksums...' });
+                sha256 = await fetchChecksum(options.checksumsUrl, fileName);
+            }
+
             // Download the archive
             progress.report({ message: `Downloading ${title}...` });
 
@@ -31,35 +60,123 @@ export async function downloadAndExtractArtifact(title: string, installDir: vsco
                 },
             });
 
-            // Prepare the install directory
-            const zipUri = vscode.Uri.joinPath(installDir, path.basename(artifactUrl));
+            const data = new Uint8Array(response.data);
 
-            // Clean up any previous installation
-            await vscode.workspace.fs.delete(installDir, {
-                recursive: true,
-                useTrash: false
-            });
+            if (sha256) {
+                progress.report({ message: 'Verifying checksum...' });
+                verifyChecksum(data, sha256, fileName);
+            } else {
+                warning(`No checksum is published for ${fileName}, installing it unverified`);
+            }
 
-            // Create fresh directory and write the downloaded archive
-            await vscode.workspace.fs.createDirectory(installDir);
-            await vscode.workspace.fs.writeFile(zipUri, new Uint8Array(response.data));
-
-            // Extract the archive
+            // Extract next to the install directory, so it can be swapped in with a rename
             progress.report({ message: 'Extracting...' });
+            const stagingDir = `${installDir.fsPath}.staging-${Date.now()}`;
 
-            // Handle Windows path quirks (remove leading slash from /C:/...)
-            const isWindows = process.platform === 'win32';
-            const zipPath = isWindows ? zipUri.path.slice(1) : zipUri.path;
-            const installPath = isWindows ? installDir.path.slice(1) : installDir.path;
+            try {
+                await fs.promises.mkdir(stagingDir, { recursive: true });
 
-            // Extract the archive
-            const files = await decompress(zipPath, installPath);
+                const relativeExePath = await extractArtifact(data, stagingDir, artifactUrl, options.executableName);
 
-            // Make the executable runnable
-            const exePath = vscode.Uri.joinPath(installDir, files[0].path).fsPath;
-            await fs.promises.chmod(exePath, 0o755);  // rwxr-xr-x
+                // Make the executable runnable
+                await fs.promises.chmod(path.join(stagingDir, relativeExePath), 0o755);  // rwxr-xr-x
 
-            return exePath;
+                await swapDirectory(stagingDir, installDir.fsPath);
+                return path.join(installDir.fsPath, relativeExePath);
+            } catch (err) {
+                await fs.promises.rm(stagingDir, { recursive: true, force: true });
+                throw err;
+            }
         }
     );
 }
+
+/**
+ * Throw if the SHA-256 of the data does not match the expected hex digest.
+ */
+export function verifyChecksum(data: Uint8Array, expected: string, name: string): void {
+    const actual = crypto.createHash('sha256').update(data).digest('hex');
+
+    if (actual.toLowerCase() !== expected.trim().toLowerCase()) {
+        throw new Error(`Checksum mismatch for ${name}: expected ${expected}, got ${actual}`);
+    }
+}
+
+/**
+ * Read the SHA-256 of a file from a checksum file, either `sha256sum` output or a single digest.
+ * Throws if the checksum file can not be fetched or does not list the file.
+ */
+async function fetchChecksum(checksumsUrl: string, fileName: string): Promise<string> {
+    const response = await axios.get<string>(checksumsUrl, { responseType: 'text' });
+    const lines = String(response.data).split(/\r?\n/).map(line => line.trim()).filter(Boolean);
+
+    for (const line of lines) {
+        // `<digest>  <name>`, binary mode prefixes the name with `*`
+        const [digest, name] = line.split(/\s+/);
+
+        if (/^[a-f0-9]{64}$/i.test(digest) && ((lines.length === 1 && !name) || name?.replace(/^\*/, '') === fileName)) {
+            return digest;
+        }
+    }
+
+    throw new Error(`${path.basename(checksumsUrl)} does not list a SHA-256 for ${fileName}`);
+}
+
+/**
+ * Extract the downloaded data into `directory` and return the executable path relative to it.
+ */
+async function extractArtifact(data: Uint8Array, directory: string, artifactUrl: string, executableName?: string): Promise<string> {
+    // Some tools are released as plain binaries instead of archives
+    if (!ARCHIVE_REGEX.test(artifactUrl)) {
+        const binaryName = executableName
+            ? `${executableName}${process.platform === 'win32' ? '.exe' : ''}`
+            : path.basename(artifactUrl);
+
+        await fs.promises.writeFile(path.join(directory, binaryName), data);
+        return binaryName;
+    }
+
+    const archivePath = path.join(directory, path.basename(artifactUrl));
+    await fs.promises.writeFile(archivePath, data);
+
+    const files = (await decompress(archivePath, directory)).filter(file => file.type === 'file');
+    await fs.promises.rm(archivePath);
+
+    const executable = executableName
+        ? files.find(file => [executableName, `${executableName}.exe`].includes(path.basename(file.path)))
+        : undefined;
+
+    // Fall back to the only file of the archive
+    const result = executable ?? (files.length === 1 ? files[0] : undefined);
+
+    if (!result) {
+        throw new Error(`${executableName ?? 'Executable'} not found in ${path.basename(artifactUrl)}`);
+    }
+
+    return result.path;
+}
+
+/**
+ * Replace `target` with `source` using renames. The old target is only deleted once the new one is in place.
+ */
+async function swapDirectory(source: string, target: string): Promise<void> {
+    const backup = `${target}.old-${Date.now()}`;
+    const hadTarget = fs.existsSync(target);
+
+    if (hadTarget) {
+        await fs.promises.rename(target, backup);
+    }
+
+    try {
+        await fs.promises.rename(source, target);
+    } catch (err) {
+        if (hadTarget) {
+            await fs.promises.rename(backup, target);
+        }
+        throw err;
+    }
+
+    if (hadTarget) {
+        await fs.promises.rm(backup, { recursive: true, force: true });
+    }
+}
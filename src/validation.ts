@@ -0,0 +1,317 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import * as fs from 'fs';
+import * as jsonc from 'jsonc-parser';
+import {
+    C3_LIBRARY_EXTENSION,
+    DEFAULT_DEPENDENCY_SEARCH_PATH,
+    MANIFEST_FILE_NAME,
+    MANIFEST_SCHEMA_PATH,
+    PROJECT_FILE_NAME,
+    PROJECT_SCHEMA_PATH,
+    PROJECT_VALIDATION_DELAY,
+    PROJECT_VALIDATION_SOURCE,
+} from './constants';
+import { error } from './logger';
+
+/**
+ * The parts of a JSON schema the validator uses
+ */
+interface Schema {
+    properties: Record<string, { enum?: string[] }>;
+    definitions: {
+        target: {
+            properties: Record<string, { enum?: string[] }>;
+        };
+    };
+}
+
+/**
+ * Which file a document is, determines the schema and the checks that apply
+ */
+type FileKind = 'project' | 'manifest';
+
+/** Keys listing C3 source paths */
+const SOURCE_KEYS = ['sources', 'sources-add', 'sources-override', 'test-sources', 'test-sources-add', 'test-sources-override'];
+
+/** Keys listing library dependencies */
+const DEPENDENCY_KEYS = ['dependencies', 'dependencies-add', 'dependencies-override'];
+
+const schemas = new Map<FileKind, Schema>();
+let collection: vscode.DiagnosticCollection | null = null;
+
+/** Pending validation of each edited document, by URI */
+const validationTimers = new Map<string, NodeJS.Timeout>();
+
+/**
+ * Register validation and completion for project.json and library manifest.json files.
+ * The JSON schemas themselves are contributed through `jsonValidation` in package.json.
+ */
+export function registerProjectValidation(context: vscode.ExtensionContext): void {
+    loadSchema(context, 'project', PROJECT_SCHEMA_PATH);
+    loadSchema(context, 'manifest', MANIFEST_SCHEMA_PATH);
+
+    collection = vscode.languages.createDiagnosticCollection(PROJECT_VALIDATION_SOURCE);
+
+    const selector: vscode.DocumentSelector = [
+        { scheme: 'file', pattern: `**/${PROJECT_FILE_NAME}` },
+        { scheme: 'file', pattern: `**/*${C3_LIBRARY_EXTENSION}/${MANIFEST_FILE_NAME}` },
+    ];
+
+    const completion = vscode.languages.registerCompletionItemProvider(selector, { provideCompletionItems }, '"');
+
+    context.subscriptions.push(
+        collection,
+        completion,
+        vscode.workspace.onDidOpenTextDocument(validateDocument),
+        vscode.workspace.onDidChangeTextDocument(event => scheduleValidation(event.document)),
+        vscode.workspace.onDidCloseTextDocument(document => {
+            cancelValidation(document);
+            collection?.delete(document.uri);
+        }),
+        { dispose: () => validationTimers.forEach(timer => clearTimeout(timer)) },
+    );
+
+    vscode.workspace.textDocuments.forEach(validateDocument);
+}
+
+function loadSchema(context: vscode.ExtensionContext, kind: FileKind, schemaPath: string): void {
+    try {
+        const file = vscode.Uri.joinPath(context.extensionUri, schemaPath).fsPath;
+        schemas.set(kind, JSON.parse(fs.readFileSync(file, 'utf-8')));
+    } catch (err) {
+        error(`Failed to load ${schemaPath}`, err);
+    }
+}
+
+/**
+ * Validate a document once typing paused, each validation checks the disk for every source path.
+ */
+function scheduleValidation(document: vscode.TextDocument): void {
+    if (!getFileKind(document)) {
+        return;
+    }
+
+    cancelValidation(document);
+    validationTimers.set(document.uri.toString(), setTimeout(() => {
+        validationTimers.delete(document.uri.toString());
+        validateDocument(document);
+    }, PROJECT_VALIDATION_DELAY));
+}
+
+function cancelValidation(document: vscode.TextDocument): void {
+    clearTimeout(validationTimers.get(document.uri.toString()));
+    validationTimers.delete(document.uri.toString());
+}
+
+function getFileKind(document: vscode.TextDocument): FileKind | null {
+    if (document.uri.scheme !== 'file') {
+        return null;
+    }
+
+    const name = path.basename(document.uri.fsPath);
+    const parent = path.basename(path.dirname(document.uri.fsPath));
+
+    if (name === PROJECT_FILE_NAME) {
+        return 'project';
+    } else if (name === MANIFEST_FILE_NAME && parent.endsWith(C3_LIBRARY_EXTENSION)) {
+        return 'manifest';
+    }
+
+    return null;
+}
+
+/**
+ * Report unknown keys, missing source directories and unresolved dependencies.
+ */
+function validateDocument(document: vscode.TextDocument): void {
+    const kind = getFileKind(document);
+    const schema = kind ? schemas.get(kind) : undefined;
+
+    if (!collection || !kind || !schema) {
+        return;
+    }
+
+    const root = jsonc.parseTree(document.getText(), [], { allowTrailingComma: true });
+    if (!root || root.type !== 'object') {
+        collection.delete(document.uri);
+        return;
+    }
+
+    const directory = path.dirname(document.uri.fsPath);
+    const searchPaths = getDependencySearchPaths(root, directory, kind);
+    const diagnostics: vscode.Diagnostic[] = [];
+
+    const validateObject = (node: jsonc.Node, known: Record<string, unknown>, context: string) => {
+        for (const property of node.children ?? []) {
+            const [keyNode, valueNode] = property.children ?? [];
+            if (!keyNode || !valueNode) {
+                continue;
+            }
+
+            const key = keyNode.value as string;
+
+            if (!(key in known)) {
+                diagnostics.push(createDiagnostic(document, keyNode, `Unknown ${context} key '${key}'`, vscode.DiagnosticSeverity.Warning));
+                continue;
+            }
+
+            if (SOURCE_KEYS.includes(key)) {
+                diagnostics.push(...checkSources(document, valueNode, directory));
+            } else if (DEPENDENCY_KEYS.includes(key)) {
+                diagnostics.push(...checkDependencies(document, valueNode, searchPaths));
+            }
+        }
+    };
+
+    validateObject(root, schema.properties, kind === 'project' ? PROJECT_FILE_NAME : MANIFEST_FILE_NAME);
+
+    const targets = jsonc.findNodeAtLocation(root, ['targets']);
+    for (const target of targets?.type === 'object' ? targets.children ?? [] : []) {
+        const [nameNode, valueNode] = target.children ?? [];
+        if (valueNode?.type === 'object') {
+            validateObject(valueNode, schema.definitions.target.properties, `target '${nameNode.value}'`);
+        }
+    }
+
+    collection.set(document.uri, diagnostics);
+}
+
+/**
+ * Check that the directory part of every source path exists, e.g. `src` for `src/**`.
+ */
+function checkSources(document: vscode.TextDocument, node: jsonc.Node, directory: string): vscode.Diagnostic[] {
+    const diagnostics: vscode.Diagnostic[] = [];
+
+    for (const entry of node.type === 'array' ? node.children ?? [] : []) {
+        if (typeof entry.value !== 'string') {
+            continue;
+        }
+
+        const base = getGlobBase(entry.value);
+        if (!fs.existsSync(path.resolve(directory, base))) {
+            diagnostics.push(createDiagnostic(document, entry, `Source path '${base}' does not exist`, vscode.DiagnosticSeverity.Error));
+        }
+    }
+
+    return diagnostics;
+}
+
+/**
+ * Check that every dependency can be found as a `.c3l` library in the search paths.
+ */
+function checkDependencies(document: vscode.TextDocument, node: jsonc.Node, searchPaths: string[]): vscode.Diagnostic[] {
+    const available = findLibraries(searchPaths);
+    const diagnostics: vscode.Diagnostic[] = [];
+
+    for (const entry of node.type === 'array' ? node.children ?? [] : []) {
+        if (typeof entry.value === 'string' && !available.includes(entry.value)) {
+            diagnostics.push(createDiagnostic(
+                document,
+                entry,
+                `Dependency '${entry.value}' not found in ${searchPaths.map(p => `'${p}'`).join(', ')}`,
+                vscode.DiagnosticSeverity.Error
+            ));
+        }
+    }
+
+    return diagnostics;
+}
+
+/**
+ * Complete target types and dependency names found on disk.
+ */
+function provideCompletionItems(document: vscode.TextDocument, position: vscode.Position): vscode.CompletionItem[] {
+    const kind = getFileKind(document);
+    const schema = kind ? schemas.get(kind) : undefined;
+
+    if (!kind || !schema) {
+        return [];
+    }
+
+    const text = document.getText();
+    const offset = document.offsetAt(position);
+    const location = jsonc.getLocation(text, offset);
+
+    if (location.isAtPropertyKey) {
+        return [];
+    }
+
+    const key = [...location.path].reverse().find((segment): segment is string => typeof segment === 'string');
+    let values: string[] = [];
+
+    if (kind === 'project' && key === 'type' && location.path[0] === 'targets') {
+        values = schema.definitions.target.properties['type']?.enum ?? [];
+    } else if (key && DEPENDENCY_KEYS.includes(key)) {
+        const root = jsonc.parseTree(text, [], { allowTrailingComma: true });
+        const directory = path.dirname(document.uri.fsPath);
+        values = root ? findLibraries(getDependencySearchPaths(root, directory, kind)) : [];
+    }
+
+    // Replace the contents of the string the cursor is in, or insert a new string
+    const previous = location.previousNode;
+    const inString = previous?.type === 'string' && offset > previous.offset && offset < previous.offset + previous.length;
+    const range = inString
+        ? new vscode.Range(document.positionAt(previous.offset + 1), document.positionAt(previous.offset + previous.length - 1))
+        : undefined;
+
+    return values.map(value => {
+        const item = new vscode.CompletionItem(value, vscode.CompletionItemKind.Value);
+        item.insertText = inString ? value : `"${value}"`;
+        item.range = range;
+        return item;
+    });
+}
+
+/**
+ * Get absolute dependency search paths. Libraries only resolve dependencies next to themselves.
+ */
+function getDependencySearchPaths(root: jsonc.Node, directory: string, kind: FileKind): string[] {
+    if (kind === 'manifest') {
+        return [path.dirname(directory)];
+    }
+
+    const node = jsonc.findNodeAtLocation(root, ['dependency-search-paths']);
+    const value = node ? jsonc.getNodeValue(node) : undefined;
+    const paths = Array.isArray(value) ? value.filter((p): p is string => typeof p === 'string') : [DEFAULT_DEPENDENCY_SEARCH_PATH];
+
+    return paths.map(p => path.resolve(directory, p));
+}
+
+/**
+ * List the names of all `.c3l` libraries (files or directories) in the search paths.
+ */
+function findLibraries(searchPaths: string[]): string[] {
+    const libraries = new Set<string>();
+
+    for (const searchPath of searchPaths) {
+        try {
+            for (const entry of fs.readdirSync(searchPath)) {
+                if (entry.endsWith(C3_LIBRARY_EXTENSION)) {
+                    libraries.add(entry.slice(0, -C3_LIBRARY_EXTENSION.length));
+                }
+            }
+        } catch {
+            // Missing search paths are simply empty
+        }
+    }
+
+    return [...libraries].sort();
+}
+
+/**
+ * Strip glob segments from a path, e.g. `src/**` becomes `src`.
+ */
+function getGlobBase(pattern: string): string {
+    const segments = pattern.split(/[\\/]/);
+    const firstGlob = segments.findIndex(segment => /[*?[{]/.test(segment));
+
+    return (firstGlob < 0 ? segments : segments.slice(0, firstGlob)).join('/') || '.';
+}
+
+function createDiagnostic(document: vscode.TextDocument, node: jsonc.Node, message: string, severity: vscode.DiagnosticSeverity): vscode.Diagnostic {
+    const range = new vscode.Range(document.positionAt(node.offset), document.positionAt(node.offset + node.length));
+    const diagnostic = new vscode.Diagnostic(range, message, severity);
+    diagnostic.source = PROJECT_VALIDATION_SOURCE;
+    return diagnostic;
+}
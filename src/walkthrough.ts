@@ -0,0 +1,88 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { ToolStatus, checkToolchain } from './toolchain';
+import { PROJECT_FILE_NAME, WALKTHROUGH_CONTEXT_KEYS, WALKTHROUGH_ID, WALKTHROUGH_SETTINGS, WALKTHROUGH_SHOWN_STATE_KEY } from './constants';
+import { error, info } from './logger';
+
+/** Set once the walkthrough was opened in this session, later setup requests only log */
+let openedThisSession = false;
+
+/**
+ * Keep the walkthrough's context keys up to date, each step completes when its key becomes true.
+ */
+export function registerWalkthrough(context: vscode.ExtensionContext): void {
+    const update = () => void updateWalkthroughContext(context);
+    const projectWatcher = vscode.workspace.createFileSystemWatcher(`**/${PROJECT_FILE_NAME}`, false, true, true);
+
+    context.subscriptions.push(
+        projectWatcher,
+        projectWatcher.onDidCreate(update),
+        vscode.workspace.onDidChangeWorkspaceFolders(update),
+        vscode.workspace.onDidChangeConfiguration(event => {
+            if (WALKTHROUGH_SETTINGS.some(setting => event.affectsConfiguration(setting))) {
+                update();
+            }
+        })
+    );
+
+    update();
+}
+
+/**
+ * Open the getting started walkthrough.
+ */
+export async function openWalkthrough(context: vscode.ExtensionContext): Promise<void> {
+    openedThisSession = true;
+    await vscode.commands.executeCommand('workbench.action.openWalkthrough', `${context.extension.id}#${WALKTHROUGH_ID}`, false);
+}
+
+/**
+ * Guide the user through setup when a tool is missing. The walkthrough opens by itself only once,
+ * afterwards it is left to the "C3: Get Started" command so missing optional tools do not nag.
+ */
+export async function showSetupWalkthrough(context: vscode.ExtensionContext, reason: string): Promise<void> {
+    if (openedThisSession) {
+        return;
+    }
+
+    if (context.globalState.get<boolean>(WALKTHROUGH_SHOWN_STATE_KEY)) {
+        info(`${reason}, run "C3: Get Started" to set it up`);
+        return;
+    }
+
+    info(`${reason}, opening the getting started walkthrough`);
+    await context.globalState.update(WALKTHROUGH_SHOWN_STATE_KEY, true);
+    await openWalkthrough(context);
+}
+
+async function updateWalkthroughContext(context: vscode.ExtensionContext): Promise<void> {
+    try {
+        const statuses = await checkToolchain(context);
+
+        const isWorking = (status: ToolStatus | undefined) =>
+            status !== undefined && !status.problem && status.version !== undefined;
+
+        // A server that is disabled or not started locally needs no setup
+        const lsp = statuses.find(s => s.kind === 'lsp');
+
+        // The formatter is off by default, so its step waits for an enabled, working c3fmt
+        const fmt = statuses.find(s => s.kind === 'fmt');
+
+        await setContext(WALKTHROUGH_CONTEXT_KEYS.COMPILER, isWorking(statuses.find(s => s.kind === 'c3c')));
+        await setContext(WALKTHROUGH_CONTEXT_KEYS.LSP, !lsp || isWorking(lsp));
+        await setContext(WALKTHROUGH_CONTEXT_KEYS.FORMATTER, isWorking(fmt));
+        await setContext(WALKTHROUGH_CONTEXT_KEYS.PROJECT, hasProject());
+    } catch (err) {
+        error('Failed to update walkthrough progress', err);
+    }
+}
+
+function hasProject(): boolean {
+    return (vscode.workspace.workspaceFolders ?? [])
+        .some(folder => fs.existsSync(path.join(folder.uri.fsPath, PROJECT_FILE_NAME)));
+}
+
+async function setContext(key: string, value: boolean): Promise<void> {
+    await vscode.commands.executeCommand('setContext', key, value);
+}
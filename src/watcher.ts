@@ -0,0 +1,80 @@
+import * as vscode from 'vscode';
+import * as lsp from './lsp';
+import * as format from './format';
+import { getFMTConfig } from './config';
+import { CONFIG_CHANGE_DELAY } from './constants';
+import { applyLogConfig, info } from './logger';
+import { onDidChangeBuildProfile } from './profile';
+
+/** Settings used to start or reach the server, changing them needs a restart */
+const LSP_RESTART_SETTINGS = [
+    'c3.c3c-path',
+    'c3.stdlib-path',
+    'c3.lsp.enabled',
+    'c3.lsp.path',
+    'c3.lsp.transport',
+    'c3.lsp.address',
+    'c3.lsp.sendCrashReports',
+    'c3.lsp.debug',
+    'c3.lsp.log.path',
+    'c3.lsp.trafficLog',
+    'c3.lsp.diagnosticsDelay',
+    'c3.lsp.langVersion',
+];
+
+let restartTimer: NodeJS.Timeout | undefined;
+
+/** Whether formatting was on at the last settings change */
+let formatEnabled = false;
+
+/**
+ * Apply settings changes without a manual restart. Server restarts are debounced,
+ * since installers update several settings in a row.
+ */
+export function registerConfigWatcher(context: vscode.ExtensionContext): void {
+    formatEnabled = getFMTConfig().enabled;
+
+    const watcher = vscode.workspace.onDidChangeConfiguration(event => {
+        if (event.affectsConfiguration('c3.log')) {
+            applyLogConfig();
+        }
+
+        if (event.affectsConfiguration('c3.lsp.trace')) {
+            lsp.applyLSPTrace();
+        }
+
+        if (LSP_RESTART_SETTINGS.some(section => event.affectsConfiguration(section))) {
+            scheduleLSPUpdate(context);
+        }
+
+        if (event.affectsConfiguration('c3.lsp.pinnedVersion')) {
+            info('Pinned LSP version changed');
+            void lsp.checkForLSPUpdates(context, true);
+        }
+
+        // Path changes are picked up when formatting, the setup only runs when formatting is turned on
+        if (event.affectsConfiguration('c3.format.enabled')) {
+            const enabled = getFMTConfig().enabled;
+
+            if (enabled && !formatEnabled) {
+                info('Formatter enabled');
+                void format.reinitializeFormatter(context);
+            }
+
+            formatEnabled = enabled;
+        }
+    });
+
+    // The server gets the build profile on start
+    const profileWatcher = onDidChangeBuildProfile(() => scheduleLSPUpdate(context));
+
+    context.subscriptions.push(watcher, profileWatcher, { dispose: () => clearTimeout(restartTimer) });
+}
+
+function scheduleLSPUpdate(context: vscode.ExtensionContext): void {
+    clearTimeout(restartTimer);
+    restartTimer = setTimeout(() => {
+        // Start failures are already logged and shown in the status bar
+        lsp.applyLSPConfig(context).catch(() => { });
+    }, CONFIG_CHANGE_DELAY);
+}